@@ -0,0 +1,136 @@
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { AsrMadhab, CalculationMethodId, HighLatitudeRule, PrayerSettings, PrayerTimeName } from '../types/prayer'
+import {
+  ASR_MADHABS,
+  CALCULATION_METHODS,
+  HIGH_LATITUDE_RULES,
+  describeTwilightRule,
+  parseTimeOffsets
+} from '../lib/calculationMethods'
+
+const OFFSET_TIMES: { key: PrayerTimeName, label: string }[] = [
+  { key: 'fajr', label: 'Fajr' },
+  { key: 'sunrise', label: 'Sunrise' },
+  { key: 'dhuhr', label: 'Dhuhr' },
+  { key: 'asr', label: 'Asr' },
+  { key: 'maghrib', label: 'Maghrib' },
+  { key: 'isha', label: 'Isha' }
+]
+
+interface CalculationSettingsProps {
+  settings: PrayerSettings
+  onUpdateSettings: (updates: Partial<PrayerSettings>) => void
+}
+
+export default function CalculationSettings({ settings, onUpdateSettings }: CalculationSettingsProps) {
+  const method = CALCULATION_METHODS[settings.calculation_method]
+  const madhab = ASR_MADHABS[settings.asr_madhab]
+  const highLatitudeRule = HIGH_LATITUDE_RULES[settings.high_latitude_rule]
+  const offsets = parseTimeOffsets(settings.time_offsets)
+
+  const handleOffsetChange = (key: PrayerTimeName, value: string) => {
+    const minutes = Math.max(-60, Math.min(60, Math.round(Number(value) || 0)))
+    onUpdateSettings({ time_offsets: JSON.stringify({ ...offsets, [key]: minutes }) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Calculation Method</Label>
+        <Select
+          value={settings.calculation_method}
+          onValueChange={(value) => onUpdateSettings({ calculation_method: value as CalculationMethodId })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(CALCULATION_METHODS).map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {method && (
+          <p className="text-xs text-muted-foreground">
+            Used in {method.region}. Fajr {method.fajrAngle}°,
+            Maghrib {describeTwilightRule(method.maghrib, 'sunset')},
+            Isha {describeTwilightRule(method.isha, 'Maghrib')}.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Asr Calculation</Label>
+        <Select
+          value={settings.asr_madhab}
+          onValueChange={(value) => onUpdateSettings({ asr_madhab: value as AsrMadhab })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ASR_MADHABS).map(([id, option]) => (
+              <SelectItem key={id} value={id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {madhab && (
+          <p className="text-xs text-muted-foreground">{madhab.description}.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>High Latitude Rule</Label>
+        <Select
+          value={settings.high_latitude_rule}
+          onValueChange={(value) => onUpdateSettings({ high_latitude_rule: value as HighLatitudeRule })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(HIGH_LATITUDE_RULES).map(([id, option]) => (
+              <SelectItem key={id} value={id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {highLatitudeRule && (
+          <p className="text-xs text-muted-foreground">{highLatitudeRule.description}.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Minute Adjustments</Label>
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {OFFSET_TIMES.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <span className="text-xs text-muted-foreground">{label}</span>
+              <Input
+                type="number"
+                min={-60}
+                max={60}
+                defaultValue={offsets[key] || 0}
+                onBlur={(e) => {
+                  if (Number(e.target.value) !== (offsets[key] || 0)) {
+                    handleOffsetChange(key, e.target.value)
+                  }
+                }}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Added to each computed time to match your local mosque's timetable.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { format, parseISO } from 'date-fns'
+import { PrayerConflict } from '../types/prayer'
+
+interface ConflictReviewProps {
+  conflicts: PrayerConflict[]
+  onResolve: (conflictId: string, notes: string) => Promise<void>
+}
+
+const SOURCE_LABELS: Record<PrayerConflict['source'], string> = {
+  duplicate: 'Logged on two devices',
+  concurrent_edit: 'Edited on two devices'
+}
+
+export default function ConflictReview({ conflicts, onResolve }: ConflictReviewProps) {
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  const resolve = async (conflictId: string, notes: string) => {
+    setResolving(conflictId)
+    try {
+      await onResolve(conflictId, notes)
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  if (conflicts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Nothing to review. Your devices agree.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+      <p className="text-sm text-muted-foreground">
+        These notes were changed on more than one device. The most recent one is shown now; choose what to keep.
+      </p>
+      {conflicts.map(conflict => (
+        <Card key={conflict.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">
+                {conflict.prayer_name} · {format(parseISO(conflict.prayer_date), 'EEE, MMM d yyyy')}
+              </CardTitle>
+              <Badge variant="outline">{SOURCE_LABELS[conflict.source]}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Current</div>
+                <p className="text-sm whitespace-pre-wrap rounded-md border p-3">{conflict.kept_value}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={resolving === conflict.id}
+                  onClick={() => resolve(conflict.id, conflict.kept_value)}
+                >
+                  Keep this
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Other device</div>
+                <p className="text-sm whitespace-pre-wrap rounded-md border p-3">{conflict.other_value}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={resolving === conflict.id}
+                  onClick={() => resolve(conflict.id, conflict.other_value)}
+                >
+                  Keep this
+                </Button>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              disabled={resolving === conflict.id}
+              onClick={() => resolve(conflict.id, `${conflict.kept_value}\n\n${conflict.other_value}`)}
+            >
+              Keep both
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
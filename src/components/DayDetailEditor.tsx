@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { History, Pencil, Plus, Trash2, Undo2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { toast } from 'sonner'
+import { Prayer, PrayerLocation, PrayerRevision, PrayerRevisionAction, PrayerStatus, DAILY_PRAYERS } from '../types/prayer'
+import { PrayerService } from '../services/prayerService'
+import { RevisionService } from '../services/revisionService'
+import { CalculationParams } from '../lib/calculationMethods'
+import { PRAYER_STATUSES, derivePrayerStatus } from '../lib/prayerStatus'
+import { PrayerWindow, getPerformedAt, getPrayerWindow } from '../lib/prayerWindows'
+import { formatTimeInZone } from '../lib/timezone'
+import { describeRevisionChanges, parseRevisionChanges } from '../lib/revisions'
+
+const REVISION_LABELS: Record<PrayerRevisionAction, string> = {
+  created: 'Logged',
+  updated: 'Edited',
+  deleted: 'Deleted',
+  restored: 'Restored',
+  merged: 'Merged with a duplicate'
+}
+
+type EntryKind = 'performed' | 'excused' | 'missed'
+
+type PrayerUpdates = Partial<Pick<Prayer, 'prayer_name' | 'start_time' | 'end_time' | 'status' | 'notes'>>
+
+interface DayDetailEditorProps {
+  date: string // "yyyy-MM-dd"
+  prayers: Prayer[]
+  location: PrayerLocation
+  calculationParams: CalculationParams
+  onLogPrayer: (prayerName: string, status: PrayerStatus | undefined, performedAt: Date) => Promise<unknown>
+  onUpdatePrayer: (prayerId: string, updates: PrayerUpdates) => Promise<unknown>
+  onDeletePrayer: (prayer: Prayer) => Promise<unknown>
+  onRestorePrayer: (prayer: Prayer) => Promise<unknown>
+}
+
+interface EntryDraft {
+  prayerName: string
+  prayerId?: string // Set when editing an existing log
+  loggedStart?: string // The edited log's start_time, kept unless the time is changed
+  kind: EntryKind
+  time: string // "HH:mm" in the location's timezone
+  notes: string
+}
+
+export default function DayDetailEditor({
+  date,
+  prayers,
+  location,
+  calculationParams,
+  onLogPrayer,
+  onUpdatePrayer,
+  onDeletePrayer,
+  onRestorePrayer
+}: DayDetailEditorProps) {
+  const [draft, setDraft] = useState<EntryDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deletedPrayers, setDeletedPrayers] = useState<Prayer[]>([])
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+
+  // Refetch whenever the live logs change, since a delete or restore moves a log between the two
+  useEffect(() => {
+    PrayerService.getDeletedPrayers(date)
+      .then(setDeletedPrayers)
+      .catch(error => console.error('Failed to load deleted prayers:', error))
+  }, [date, prayers])
+
+  const toggleHistory = (prayerId: string) => {
+    setHistoryFor(current => current === prayerId ? null : prayerId)
+  }
+
+  const dayPrayers = prayers.filter(prayer => prayer.prayer_date === date)
+  const toTime = (value: Date) => formatTimeInZone(value, location.timezone, false)
+
+  const startAdding = (prayerName: string, window?: PrayerWindow) => {
+    setDraft({
+      prayerName,
+      kind: 'performed',
+      time: window ? toTime(window.start) : '12:00',
+      notes: ''
+    })
+  }
+
+  const startEditing = (prayer: Prayer) => {
+    setDraft({
+      prayerName: prayer.prayer_name,
+      prayerId: prayer.id,
+      loggedStart: prayer.start_time,
+      kind: prayer.status === 'excused' || prayer.status === 'missed' ? prayer.status : 'performed',
+      time: toTime(new Date(prayer.start_time)),
+      notes: prayer.notes || ''
+    })
+  }
+
+  // Qada made up on a later day keeps its real date unless a new time is entered
+  const getDraftPerformedAt = (entry: EntryDraft, window: PrayerWindow) =>
+    entry.loggedStart && entry.time === toTime(new Date(entry.loggedStart))
+      ? new Date(entry.loggedStart)
+      : getPerformedAt(window, entry.time, location.timezone)
+
+  const saveDraft = async (window?: PrayerWindow) => {
+    if (!draft) return
+    if (!window) {
+      toast.error(`${draft.prayerName} times can't be computed for this day`)
+      return
+    }
+
+    let performedAt: Date | undefined
+    let status: PrayerStatus | undefined
+    if (draft.kind === 'performed') {
+      performedAt = getDraftPerformedAt(draft, window)
+      if (performedAt < window.start) {
+        toast.error(`${draft.prayerName} had not started yet at ${draft.time}`)
+        return
+      }
+      if (performedAt.getTime() > Date.now()) {
+        toast.error("That time hasn't come yet")
+        return
+      }
+      status = derivePrayerStatus(draft.prayerName, performedAt, location, calculationParams).status
+    } else {
+      status = draft.kind
+    }
+
+    setSaving(true)
+    try {
+      if (draft.prayerId) {
+        await onUpdatePrayer(draft.prayerId, {
+          status,
+          notes: draft.notes,
+          ...(performedAt && performedAt.toISOString() !== draft.loggedStart && { start_time: performedAt.toISOString() })
+        })
+      } else {
+        // Excused and missed prayers are recorded at the adhan so they land on this day
+        await onLogPrayer(draft.prayerName, draft.kind === 'performed' ? undefined : status, performedAt || window.start)
+      }
+      setDraft(null)
+    } catch (error) {
+      // The hook has already reported the failure
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderForm = (window?: PrayerWindow) => {
+    if (!draft) return null
+    const preview = draft.kind === 'performed' && window
+      ? derivePrayerStatus(draft.prayerName, getDraftPerformedAt(draft, window), location, calculationParams).status
+      : null
+
+    return (
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select value={draft.kind} onValueChange={(value) => setDraft({ ...draft, kind: value as EntryKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="performed">Prayed</SelectItem>
+                <SelectItem value="excused">{PRAYER_STATUSES.excused.label}</SelectItem>
+                <SelectItem value="missed">{PRAYER_STATUSES.missed.label}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.kind === 'performed' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Prayed at</Label>
+              <Input
+                type="time"
+                value={draft.time}
+                onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+        {preview && (
+          <p className="text-xs text-muted-foreground">
+            Will be recorded as {PRAYER_STATUSES[preview].label.toLowerCase()}: {PRAYER_STATUSES[preview].description.toLowerCase()}.
+          </p>
+        )}
+        {draft.prayerId && (
+          <div className="space-y-1">
+            <Label className="text-xs">Notes</Label>
+            <Textarea
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => saveDraft(window)} disabled={saving}>
+            Save
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+      <p className="text-sm text-muted-foreground">
+        {format(parseISO(date), 'EEEE, MMMM d, yyyy')}
+      </p>
+      {DAILY_PRAYERS.map(({ name }) => {
+        const window = getPrayerWindow(name, date, location, calculationParams)
+        const records = dayPrayers.filter(prayer => prayer.prayer_name === name)
+        const isDrafting = draft?.prayerName === name
+
+        return (
+          <div key={name} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="font-medium">{name}</span>
+                {window && (
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {formatTimeInZone(window.start, location.timezone)} – {formatTimeInZone(window.end, location.timezone)}
+                  </span>
+                )}
+              </div>
+              {records.length === 0 && !isDrafting && (
+                <Button variant="ghost" size="sm" className="flex items-center gap-1" onClick={() => startAdding(name, window)}>
+                  <Plus className="h-3 w-3" />
+                  Add
+                </Button>
+              )}
+            </div>
+
+            {records.map(prayer => (
+              draft?.prayerId === prayer.id ? (
+                <div key={prayer.id}>{renderForm(window)}</div>
+              ) : (
+                <div key={prayer.id} className="space-y-2">
+                  <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <div className={`w-2 h-2 rounded-full ${PRAYER_STATUSES[prayer.status].color}`}></div>
+                        <span className="text-sm">{PRAYER_STATUSES[prayer.status].label}</span>
+                        {prayer.status !== 'excused' && prayer.status !== 'missed' && (
+                          <span className="text-sm text-muted-foreground">
+                            at {formatTimeInZone(new Date(prayer.start_time), location.timezone)}
+                          </span>
+                        )}
+                        {prayer.duration_minutes && (
+                          <Badge variant="secondary">{prayer.duration_minutes}m</Badge>
+                        )}
+                      </div>
+                      {prayer.notes && (
+                        <p className="text-xs text-muted-foreground mt-1 italic">"{prayer.notes}"</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => toggleHistory(prayer.id)} title="History">
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(prayer)} disabled={saving} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDeletePrayer(prayer).catch(() => {})}
+                        disabled={saving}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {historyFor === prayer.id && <RevisionHistory prayerId={prayer.id} timezone={location.timezone} />}
+                </div>
+              )
+            ))}
+
+            {deletedPrayers.filter(prayer => prayer.prayer_name === name).map(prayer => (
+              <div key={prayer.id} className="space-y-2">
+                <div className="flex items-center justify-between p-3 rounded-lg border border-dashed text-muted-foreground">
+                  <div className="text-sm">
+                    <span className="line-through">{PRAYER_STATUSES[prayer.status].label}</span>
+                    {' '}· deleted {format(new Date(prayer.deleted_at as string), 'MMM d, h:mm a')}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => toggleHistory(prayer.id)} title="History">
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="flex items-center gap-1"
+                      onClick={() => onRestorePrayer(prayer)}
+                      disabled={saving}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+                {historyFor === prayer.id && <RevisionHistory prayerId={prayer.id} timezone={location.timezone} />}
+              </div>
+            ))}
+
+            {isDrafting && !draft?.prayerId && renderForm(window)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function RevisionHistory({ prayerId, timezone }: { prayerId: string, timezone: string }) {
+  const [revisions, setRevisions] = useState<PrayerRevision[] | null>(null)
+
+  useEffect(() => {
+    RevisionService.getRevisions(prayerId)
+      .then(setRevisions)
+      .catch(error => {
+        console.error('Failed to load prayer history:', error)
+        setRevisions([])
+      })
+  }, [prayerId])
+
+  if (!revisions) {
+    return <p className="text-xs text-muted-foreground pl-3">Loading history...</p>
+  }
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground pl-3">No changes recorded for this log.</p>
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-3 ml-1">
+      {revisions.map(revision => (
+        <li key={revision.id} className="text-xs">
+          <div className="font-medium">
+            {REVISION_LABELS[revision.action]}
+            <span className="text-muted-foreground font-normal ml-2">
+              {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+            </span>
+          </div>
+          {revision.action !== 'created' && describeRevisionChanges(parseRevisionChanges(revision.changes), timezone).map(line => (
+            <div key={line} className="text-muted-foreground">{line}</div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,134 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Switch } from './ui/switch'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { BellRing, Plus, Trash2 } from 'lucide-react'
+import { FollowUpAnchor, FollowUpStep, PrayerSettings } from '../types/prayer'
+import {
+  DEFAULT_FOLLOW_UP_STEPS,
+  FOLLOW_UP_ANCHORS,
+  MAX_FOLLOW_UP_STEPS,
+  describeFollowUpStep,
+  toFollowUpSteps
+} from '../lib/reminders'
+
+interface FollowUpSettingsProps {
+  settings: PrayerSettings
+  onUpdateSettings: (updates: Partial<PrayerSettings>) => void
+}
+
+// A new step starts where the default last call does
+const NEW_STEP: FollowUpStep = { anchor: 'window_end', value: 15 }
+
+export default function FollowUpSettings({ settings, onUpdateSettings }: FollowUpSettingsProps) {
+  const steps = toFollowUpSteps(settings)
+  const enabled = steps.length > 0
+
+  const saveSteps = (updated: FollowUpStep[]) => {
+    onUpdateSettings({ follow_up_steps: JSON.stringify(updated) })
+  }
+
+  const updateStep = (index: number, updates: Partial<FollowUpStep>) => {
+    saveSteps(steps.map((step, i) => i === index ? { ...step, ...updates } : step))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Follow-ups
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Remind Again Until Logged</Label>
+            <p className="text-sm text-muted-foreground">
+              After a prayer's first reminder, follow up while it isn't logged. Each one presses harder as the window closes.
+            </p>
+          </div>
+          <Switch
+            checked={enabled}
+            onCheckedChange={(checked) => saveSteps(checked ? DEFAULT_FOLLOW_UP_STEPS : [])}
+          />
+        </div>
+
+        {enabled && (
+          <div className="space-y-3">
+            {steps.map((step, index) => {
+              const anchor = FOLLOW_UP_ANCHORS[step.anchor]
+              const min = step.anchor === 'window_progress' ? 5 : 1
+              return (
+                <div key={`${index}:${step.anchor}:${step.value}`} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        type="number"
+                        min={min}
+                        max={anchor.max}
+                        defaultValue={step.value}
+                        onBlur={(e) => {
+                          const value = Math.max(min, Math.min(anchor.max, Math.round(Number(e.target.value) || 0)))
+                          if (value !== step.value) updateStep(index, { value })
+                        }}
+                        className="w-20"
+                      />
+                      <span className="text-sm text-muted-foreground">{anchor.unit}</span>
+                      <Select
+                        value={step.anchor}
+                        onValueChange={(value) => {
+                          const next = value as FollowUpAnchor
+                          updateStep(index, { anchor: next, value: Math.min(step.value, FOLLOW_UP_ANCHORS[next].max) })
+                        }}
+                      >
+                        <SelectTrigger className="w-52">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(FOLLOW_UP_ANCHORS).map(([id, option]) => (
+                            <SelectItem key={id} value={id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describeFollowUpStep(step)}</p>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => saveSteps(steps.filter((_, i) => i !== index))}
+                    aria-label={`Delete follow-up ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+
+            <Button
+              variant="outline"
+              onClick={() => saveSteps([...steps, NEW_STEP])}
+              disabled={steps.length >= MAX_FOLLOW_UP_STEPS}
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add Follow-up
+            </Button>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          While the app is open, each follow-up is checked against your prayers on the server first, so logging a prayer
+          on any device stops them. Offline, or with every tab of an installed app closed, they still arrive, but only a prayer
+          logged on this device stops them.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
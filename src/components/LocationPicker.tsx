@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from './ui/command'
+import { LocateFixed, MapPin, Search } from 'lucide-react'
+import { UserLocation } from '../types/prayer'
+import { CITIES, City } from '../data/cities'
+import { formatCoordinates } from '../lib/gazetteer'
+
+interface LocationPickerProps {
+  location: UserLocation | null
+  onSelectCity: (city: City) => Promise<void>
+  onDetectLocation: () => Promise<void>
+}
+
+export default function LocationPicker({ location, onSelectCity, onDetectLocation }: LocationPickerProps) {
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [detecting, setDetecting] = useState(false)
+
+  const handleDetect = async () => {
+    setDetecting(true)
+    try {
+      await onDetectLocation()
+    } finally {
+      setDetecting(false)
+    }
+  }
+
+  const handleSelect = async (city: City) => {
+    setSearchOpen(false)
+    await onSelectCity(city)
+  }
+
+  return (
+    <div className="space-y-4">
+      {location ? (
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="font-medium flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              {location.name}{location.country ? `, ${location.country}` : ''}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {formatCoordinates(location.latitude, location.longitude)} • {location.elevation} m • {location.timezone}
+            </p>
+          </div>
+          <Badge variant="secondary">
+            {location.source === 'geolocation' ? 'Detected' : 'Manual'}
+          </Badge>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No location set. Prayer times are shown for Makkah until you choose your city.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDetect} disabled={detecting} className="flex items-center gap-2">
+          <LocateFixed className="h-4 w-4" />
+          {detecting ? 'Detecting...' : 'Use My Location'}
+        </Button>
+        <Button variant="outline" onClick={() => setSearchOpen(true)} className="flex items-center gap-2">
+          <Search className="h-4 w-4" />
+          Search City
+        </Button>
+      </div>
+
+      <CommandDialog open={searchOpen} onOpenChange={setSearchOpen}>
+        <CommandInput placeholder="Search for a city or country..." />
+        <CommandList>
+          <CommandEmpty>No matching city. Try a nearby larger city.</CommandEmpty>
+          <CommandGroup heading="Cities">
+            {CITIES.map((city) => (
+              <CommandItem
+                key={`${city.name}-${city.country}`}
+                value={`${city.name} ${city.country}`}
+                onSelect={() => handleSelect(city)}
+              >
+                <MapPin className="h-4 w-4" />
+                <span>{city.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{city.country}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </div>
+  )
+}
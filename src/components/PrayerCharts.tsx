@@ -0,0 +1,139 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from './ui/chart'
+import { BarChart3, Calendar, Clock, TrendingUp } from 'lucide-react'
+import { PrayerChartStats, PrayerPeriodCounts, DAILY_PRAYERS } from '../types/prayer'
+
+const prayerChartConfig = Object.fromEntries(
+  DAILY_PRAYERS.map(({ name }, i) => [name, { label: name, color: `hsl(var(--chart-${i + 1}))` }])
+) satisfies ChartConfig
+
+const completionChartConfig = {
+  rate: {
+    label: 'Completion',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig
+
+const durationChartConfig = {
+  count: {
+    label: 'Prayers',
+    color: 'hsl(var(--chart-2))'
+  }
+} satisfies ChartConfig
+
+const toPrayerBars = (periods: PrayerPeriodCounts[], pattern: string) =>
+  periods.map(period => ({ label: format(parseISO(period.start), pattern), ...period.byPrayer }))
+
+function PrayerStackedBars({ periods, pattern }: { periods: PrayerPeriodCounts[], pattern: string }) {
+  return (
+    <ChartContainer config={prayerChartConfig} className="aspect-auto h-[240px] w-full">
+      <BarChart data={toPrayerBars(periods, pattern)}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {DAILY_PRAYERS.map(({ name }, i) => (
+          <Bar
+            key={name}
+            dataKey={name}
+            stackId="prayers"
+            fill={`var(--color-${name})`}
+            radius={i === DAILY_PRAYERS.length - 1 ? [4, 4, 0, 0] : 0}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+interface PrayerChartsProps {
+  stats: PrayerChartStats
+}
+
+export default function PrayerCharts({ stats }: PrayerChartsProps) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Completion Over Time
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={completionChartConfig} className="aspect-auto h-[220px] w-full">
+            <LineChart data={stats.completion.map(point => ({ ...point, label: format(parseISO(point.start), 'MMM d') }))}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+              <YAxis domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent formatter={(value, _name, item) => `${value}% (${item.payload.completed}/${item.payload.due})`} />} />
+              <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot={stats.completion.length <= 31} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Prayers by Week
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PrayerStackedBars periods={stats.weekly} pattern="MMM d" />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Prayers by Month
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PrayerStackedBars periods={stats.monthly} pattern="MMM yyyy" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Prayer Duration
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stats.durations.every(bin => bin.count === 0) ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Use the prayer timer to see how long your prayers take.
+            </p>
+          ) : (
+            <ChartContainer config={durationChartConfig} className="aspect-auto h-[220px] w-full">
+              <BarChart data={stats.durations.map(bin => ({ ...bin, label: bin.to === null ? `${bin.from}+ min` : `${bin.from}–${bin.to} min` }))}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
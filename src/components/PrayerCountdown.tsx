@@ -0,0 +1,79 @@
+import { Progress } from './ui/progress'
+import { Badge } from './ui/badge'
+import { Hourglass, BellRing } from 'lucide-react'
+import { PrayerLocation } from '../types/prayer'
+import { CalculationParams } from '../lib/calculationMethods'
+import { usePrayerClock } from '../hooks/usePrayerClock'
+import { formatTimeInZone } from '../lib/timezone'
+import { formatHijriDate } from '../lib/hijri'
+
+interface PrayerCountdownProps {
+  location: PrayerLocation
+  calculationParams: CalculationParams
+}
+
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map(unit => unit.toString().padStart(2, '0')).join(':')
+}
+
+export default function PrayerCountdown({ location, calculationParams }: PrayerCountdownProps) {
+  const { now, today, current, next } = usePrayerClock(location, calculationParams)
+
+  // The Islamic day begins at Maghrib
+  const hijriDate = formatHijriDate(
+    now >= today.maghrib ? new Date(now.getTime() + 24 * 60 * 60 * 1000) : now,
+    location.timezone
+  )
+
+  const windowProgress = current
+    ? ((now.getTime() - current.start.getTime()) / (current.end.getTime() - current.start.getTime())) * 100
+    : 0
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground flex items-center gap-2">
+            <Hourglass className="h-4 w-4" />
+            Current Window
+          </span>
+          <Badge variant="secondary">{hijriDate}</Badge>
+        </div>
+        {current ? (
+          <>
+            <p className="text-xl font-semibold">{current.name}</p>
+            <Progress value={windowProgress} className="h-1" />
+            <p className="text-sm text-muted-foreground">
+              Ends at {formatTimeInZone(current.end, location.timezone)} •{' '}
+              <span className="font-mono">{formatCountdown(current.end.getTime() - now.getTime())}</span> left
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="text-xl font-semibold">No obligatory prayer</p>
+            <p className="text-sm text-muted-foreground">
+              Between sunrise and Dhuhr
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="p-4 bg-primary/10 rounded-lg space-y-2">
+        <span className="text-sm text-muted-foreground flex items-center gap-2">
+          <BellRing className="h-4 w-4" />
+          Next Adhan
+        </span>
+        <p className="text-xl font-semibold">
+          {next.name} at {formatTimeInZone(next.time, location.timezone)}
+        </p>
+        <p className="text-3xl font-mono font-bold text-primary">
+          {formatCountdown(next.time.getTime() - now.getTime())}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Alert, AlertDescription } from './ui/alert'
 import { 
   Heart, 
   Flame, 
@@ -17,16 +18,41 @@ import {
   Timer,
   Bell,
   BarChart3,
-  Settings
+  Settings,
+  AlertTriangle,
+  MapPin,
+  Scale,
+  History,
+  GitMerge
 } from 'lucide-react'
 import { format, isToday } from 'date-fns'
 import { toast } from 'sonner'
-import { Prayer, PrayerStreak, DAILY_PRAYERS } from '../types/prayer'
+import { PrayerStatus, DAILY_PRAYERS } from '../types/prayer'
 import { PrayerService } from '../services/prayerService'
+import { HIGH_LATITUDE_RULES } from '../lib/calculationMethods'
+import { PRAYER_STATUSES, isPrayerDue, isPrayerPerformed } from '../lib/prayerStatus'
+import { formatTimeInZone } from '../lib/timezone'
+import { toFollowUpSteps } from '../lib/reminders'
+import { toAudioPolicy } from '../lib/reminderSounds'
+import { usePrayerData } from '../hooks/usePrayerData'
+import { usePrayerSettings } from '../hooks/usePrayerSettings'
+import { usePrayerClock } from '../hooks/usePrayerClock'
+import { useNotifications } from '../hooks/useNotifications'
 import { blink } from '../blink/client'
 import PrayerTimer from './PrayerTimer'
 import ReminderSettings from './ReminderSettings'
+import FollowUpSettings from './FollowUpSettings'
 import PrayerStats from './PrayerStats'
+import CalculationSettings from './CalculationSettings'
+import StreakSettings from './StreakSettings'
+import ReportSettings from './ReportSettings'
+import LocationPicker from './LocationPicker'
+import PrayerCountdown from './PrayerCountdown'
+import QadaLedger from './QadaLedger'
+import PrayerHistory from './PrayerHistory'
+import SyncStatusIndicator from './SyncStatusIndicator'
+import ConflictReview from './ConflictReview'
+import DayDetailEditor from './DayDetailEditor'
 
 interface User {
   id: string
@@ -50,84 +76,86 @@ const MOTIVATIONAL_QUOTES = [
 ]
 
 export default function PrayerDashboard({ user }: PrayerDashboardProps) {
-  const [todaysPrayers, setTodaysPrayers] = useState<Prayer[]>([])
-  const [recentPrayers, setRecentPrayers] = useState<Prayer[]>([])
-  const [streak, setStreak] = useState<PrayerStreak | null>(null)
   const [currentQuote, setCurrentQuote] = useState('')
-  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
   const [showTimer, setShowTimer] = useState(false)
   const [selectedPrayer, setSelectedPrayer] = useState('')
   const [activeTab, setActiveTab] = useState('dashboard')
+  const [showConflicts, setShowConflicts] = useState(false)
+  const [editingDate, setEditingDate] = useState<string | null>(null)
+
+  const {
+    prayers,
+    todaysPrayers,
+    reminders,
+    streak,
+    prayerStreaks,
+    conflicts,
+    loading,
+    logPrayer: savePrayer,
+    updatePrayer,
+    deletePrayer,
+    restorePrayer,
+    undoLogPrayer,
+    updateReminder,
+    createReminder,
+    deleteReminder,
+    resolveConflict,
+    getWeeklyStats,
+    getMonthlyStats,
+    loadPrayerData
+  } = usePrayerData(user.id)
+  const {
+    settings,
+    calculationParams,
+    userLocation,
+    location,
+    updateSettings,
+    selectCity,
+    detectLocation
+  } = usePrayerSettings()
+  // Minute resolution is enough here; PrayerCountdown ticks every second on its own
+  const { today: prayerTimes, current: currentWindow } = usePrayerClock(location, calculationParams, 60000)
+  // Memoized so the service worker schedule is only re-sent when the steps change
+  const followUpSteps = useMemo(() => toFollowUpSteps(settings), [settings])
+  const audio = useMemo(() => toAudioPolicy(settings), [settings])
+  const { testNotification } = useNotifications({
+    reminders,
+    location,
+    params: calculationParams,
+    followUpSteps,
+    prayers,
+    audio
+  }, {
+    onPrayerLogged: (prayerName) => {
+      loadPrayerData()
+      toast.success(`${prayerName} prayer logged from the notification 🤲`)
+    },
+    onOpenTimer: (prayerName) => startTimedPrayer(prayerName)
+  })
 
   useEffect(() => {
-    loadDashboardData()
-    
     // Set random motivational quote
     const randomQuote = MOTIVATIONAL_QUOTES[Math.floor(Math.random() * MOTIVATIONAL_QUOTES.length)]
     setCurrentQuote(randomQuote)
-  }, [loadDashboardData, user.id])
-
-  const loadDashboardData = useCallback(async () => {
-    try {
-      const [todaysData, recentData, streakData] = await Promise.all([
-        PrayerService.getTodaysPrayers(),
-        PrayerService.getPrayerHistory(20),
-        PrayerService.getStreak()
-      ])
-      
-      setTodaysPrayers(todaysData || [])
-      setRecentPrayers(recentData || [])
-      setStreak(streakData || {
-        id: `streak_${user.id}`,
-        user_id: user.id,
-        current_streak: 0,
-        longest_streak: 0,
-        total_prayers: 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-    } catch (error) {
-      console.error('Failed to load dashboard data:', error)
-      // Set default values instead of showing error
-      setTodaysPrayers([])
-      setRecentPrayers([])
-      setStreak({
-        id: `streak_${user.id}`,
-        user_id: user.id,
-        current_streak: 0,
-        longest_streak: 0,
-        total_prayers: 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-    } finally {
-      setLoading(false)
-    }
-  }, [user.id])
+  }, [])
 
-  const logPrayer = async (prayerName: string) => {
-    setLoading(true)
+  const logPrayer = async (prayerName: string, status?: PrayerStatus) => {
+    setSaving(true)
     try {
-      await PrayerService.logPrayer(prayerName)
-      
-      // Reload data to reflect changes
-      await loadDashboardData()
-      
-      toast.success(`${prayerName} prayer logged successfully! 🤲`, {
-        description: 'May your prayers be accepted.'
-      })
+      const prayer = await savePrayer(prayerName, status)
 
       // Check if this completes the day
-      const uniquePrayerTypes = new Set([...todaysPrayers.map(p => p.prayer_name), prayerName])
-      if (uniquePrayerTypes.size === 5) {
+      const uniquePrayerTypes = new Set([...todaysPrayers.filter(isPrayerPerformed).map(p => p.prayer_name), prayerName])
+      if (isPrayerPerformed(prayer) && uniquePrayerTypes.size === 5) {
         toast.success('All 5 prayers completed today! 🎉', {
           description: 'Your dedication is inspiring.'
         })
       }
     } catch (error) {
-      toast.error('Failed to log prayer. Please try again.')
+      // usePrayerData has already reported the failure
     } finally {
-      setLoading(false)
+      setSaving(false)
     }
   }
 
@@ -138,13 +166,14 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
 
   const handleTimerComplete = async (startTime: Date, endTime: Date, duration: number) => {
     try {
-      await PrayerService.logPrayer(selectedPrayer, startTime, endTime)
+      const prayer = await PrayerService.logPrayer(selectedPrayer, startTime, endTime)
       
       // Reload data to reflect changes
-      await loadDashboardData()
+      await loadPrayerData()
       
       toast.success(`${selectedPrayer} prayer completed! Duration: ${duration} minutes 🤲`, {
-        description: 'May your prayers be accepted.'
+        description: 'May your prayers be accepted.',
+        action: { label: 'Undo', onClick: () => undoLogPrayer(prayer) }
       })
       
       setShowTimer(false)
@@ -159,13 +188,23 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
     setSelectedPrayer('')
   }
 
+  // Excused prayers weren't due, so they don't count towards the day
+  const getCompletedCount = () => {
+    return new Set(todaysPrayers.filter(isPrayerPerformed).map(p => p.prayer_name)).size
+  }
+
   const getTodaysProgress = () => {
-    const uniquePrayerTypes = new Set(todaysPrayers.map(p => p.prayer_name))
-    return (uniquePrayerTypes.size / 5) * 100
+    return (getCompletedCount() / 5) * 100
+  }
+
+  const getTodaysRecord = (prayerName: string) => {
+    return todaysPrayers.find(p => p.prayer_name === prayerName && isPrayerPerformed(p)) ||
+      todaysPrayers.find(p => p.prayer_name === prayerName && p.status === 'excused')
   }
 
   const isPrayerCompleted = (prayerName: string) => {
-    return todaysPrayers.some(p => p.prayer_name === prayerName)
+    const record = getTodaysRecord(prayerName)
+    return !!record && isPrayerPerformed(record)
   }
 
   if (loading) {
@@ -192,11 +231,12 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
               <p className="text-muted-foreground">
                 Welcome back, {user.displayName || user.email}
               </p>
+              <SyncStatusIndicator />
             </div>
             <div className="text-right">
               <div className="flex items-center gap-2 mb-2">
                 <Flame className="h-5 w-5 text-accent" />
-                <span className="text-2xl font-bold text-foreground">{streak?.currentStreak || 0}</span>
+                <span className="text-2xl font-bold text-foreground">{streak?.current_streak || 0}</span>
               </div>
               <p className="text-sm text-muted-foreground">Day Streak</p>
             </div>
@@ -206,15 +246,23 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
 
       <div className="max-w-6xl mx-auto px-6 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="dashboard" className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               Dashboard
             </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
             <TabsTrigger value="stats" className="flex items-center gap-2">
               <BarChart3 className="h-4 w-4" />
               Statistics
             </TabsTrigger>
+            <TabsTrigger value="qada" className="flex items-center gap-2">
+              <Scale className="h-4 w-4" />
+              Qada
+            </TabsTrigger>
             <TabsTrigger value="reminders" className="flex items-center gap-2">
               <Bell className="h-4 w-4" />
               Reminders
@@ -226,6 +274,20 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
           </TabsList>
 
           <TabsContent value="dashboard" className="space-y-8">
+            {conflicts.length > 0 && (
+              <Alert>
+                <GitMerge className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  <span>
+                    Notes on {conflicts.length} {conflicts.length === 1 ? 'prayer' : 'prayers'} differ between your devices.
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => setShowConflicts(true)}>
+                    Review
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Today's Progress */}
             <Card>
               <CardHeader>
@@ -236,9 +298,10 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  <PrayerCountdown location={location} calculationParams={calculationParams} />
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted-foreground">
-                      {new Set(todaysPrayers.map(p => p.prayer_name)).size} of 5 prayers completed
+                      {getCompletedCount()} of 5 prayers completed
                     </span>
                     <span className="text-sm font-medium">
                       {Math.round(getTodaysProgress())}%
@@ -252,51 +315,117 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
             {/* Prayer Buttons */}
             <Card>
               <CardHeader>
-                <CardTitle>Log Your Prayers</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Log Your Prayers</CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                    onClick={() => setActiveTab('settings')}
+                  >
+                    <MapPin className="h-3 w-3" />
+                    {userLocation ? userLocation.name : 'Set your location'}
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
                   {DAILY_PRAYERS.map((prayer) => {
+                    const record = getTodaysRecord(prayer.name)
                     const isCompleted = isPrayerCompleted(prayer.name)
+                    const isExcused = record?.status === 'excused'
+                    const isActive = currentWindow?.name === prayer.name
+                    // Its adhan is still ahead, so it can't be logged as prayed yet
+                    const isUpcoming = !record && !isPrayerDue(prayer.name, new Date(), location, calculationParams)
+                    const consistency = prayerStreaks.find(p => p.prayer_name === prayer.name)
                     const Icon = prayer.name === 'Fajr' || prayer.name === 'Maghrib' || prayer.name === 'Isha' ? Moon : Sun
                     
                     return (
                       <div key={prayer.name} className="space-y-2">
                         <Button
                           variant={isCompleted ? "default" : "outline"}
-                          className={`h-24 w-full flex-col gap-2 relative ${
+                          className={`h-28 w-full flex-col gap-2 relative ${
                             isCompleted ? 'bg-primary text-primary-foreground' : ''
-                          }`}
-                          onClick={() => !isCompleted && logPrayer(prayer.name)}
-                          disabled={loading || isCompleted}
+                          } ${isActive ? 'ring-2 ring-accent ring-offset-2' : ''}`}
+                          onClick={() => record ? setEditingDate(prayerTimes.date) : logPrayer(prayer.name)}
+                          disabled={saving || isUpcoming}
+                          title={record ? 'Edit today\'s log' : isUpcoming ? 'Not started yet' : undefined}
                         >
                           {isCompleted && (
                             <Badge className="absolute -top-2 -right-2 bg-green-500 text-white px-1 py-0 text-xs">
                               ✓
                             </Badge>
                           )}
+                          {isExcused && (
+                            <Badge className={`absolute -top-2 -right-2 ${PRAYER_STATUSES.excused.color} text-white px-1 py-0 text-xs`}>
+                              {PRAYER_STATUSES.excused.label}
+                            </Badge>
+                          )}
+                          {isActive && (
+                            <Badge className="absolute -top-2 -left-2 bg-accent text-accent-foreground px-1 py-0 text-xs">
+                              Now
+                            </Badge>
+                          )}
                           <Icon className="h-6 w-6" />
                           <div className="text-center">
                             <div className="font-medium">{prayer.name}</div>
-                            <div className="text-xs opacity-70">{prayer.time}</div>
+                            <div className="text-xs opacity-70">
+                              {record
+                                ? PRAYER_STATUSES[record.status].label
+                                : <>
+                                    {prayerTimes.adjusted.includes(prayer.key) && '≈ '}
+                                    {formatTimeInZone(prayerTimes[prayer.key], location.timezone)}
+                                  </>}
+                            </div>
+                            {consistency && (
+                              <div
+                                className="flex items-center justify-center gap-1 text-xs opacity-70"
+                                title={`${consistency.current_streak}-day ${prayer.name} streak, kept ${consistency.consistency}% of the last 30 days`}
+                              >
+                                <Flame className="h-3 w-3" />
+                                {consistency.current_streak} · {consistency.consistency}%
+                              </div>
+                            )}
                           </div>
                         </Button>
                         
-                        {!isCompleted && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="w-full flex items-center gap-1 text-xs"
-                            onClick={() => startTimedPrayer(prayer.name)}
-                          >
-                            <Timer className="h-3 w-3" />
-                            Time Prayer
-                          </Button>
+                        {!record && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="flex-1 flex items-center gap-1 text-xs"
+                              onClick={() => startTimedPrayer(prayer.name)}
+                              disabled={isUpcoming}
+                            >
+                              <Timer className="h-3 w-3" />
+                              Time Prayer
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs text-muted-foreground"
+                              onClick={() => logPrayer(prayer.name, 'excused')}
+                              disabled={saving}
+                            >
+                              Excused
+                            </Button>
+                          </div>
                         )}
                       </div>
                     )
                   })}
                 </div>
+                {prayerTimes.adjusted.length > 0 && (
+                  <div className="flex items-start gap-2 mt-4 p-3 bg-yellow-50 dark:bg-yellow-950 rounded-lg">
+                    <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5" />
+                    <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                      {prayerTimes.adjusted.map(name => name.charAt(0).toUpperCase() + name.slice(1)).join(' and ')}
+                      {' '}times are approximated with the {HIGH_LATITUDE_RULES[calculationParams.highLatitudeRule].name.toLowerCase()} rule
+                      because twilight does not end normally at your latitude today.
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -312,11 +441,11 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
                 <CardContent>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="text-center p-4 bg-muted/50 rounded-lg">
-                      <p className="text-2xl font-bold text-primary">{streak?.totalPrayers || 0}</p>
+                      <p className="text-2xl font-bold text-primary">{streak?.total_prayers || 0}</p>
                       <p className="text-sm text-muted-foreground">Total Prayers</p>
                     </div>
                     <div className="text-center p-4 bg-muted/50 rounded-lg">
-                      <p className="text-2xl font-bold text-accent">{streak?.longestStreak || 0}</p>
+                      <p className="text-2xl font-bold text-accent">{streak?.longest_streak || 0}</p>
                       <p className="text-sm text-muted-foreground">Best Streak</p>
                     </div>
                   </div>
@@ -347,7 +476,7 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {recentPrayers.length === 0 ? (
+                {prayers.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">
                     <Plus className="h-12 w-12 mx-auto mb-4 opacity-50" />
                     <p>No prayers logged yet.</p>
@@ -355,10 +484,14 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {recentPrayers.slice(0, 10).map((prayer) => (
-                      <div key={prayer.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    {prayers.slice(0, 10).map((prayer) => (
+                      <div
+                        key={prayer.id}
+                        className="flex items-center justify-between p-3 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted"
+                        onClick={() => setEditingDate(prayer.prayer_date)}
+                      >
                         <div className="flex items-center gap-3">
-                          <div className="w-2 h-2 bg-primary rounded-full"></div>
+                          <div className={`w-2 h-2 rounded-full ${PRAYER_STATUSES[prayer.status].color}`}></div>
                           <div>
                             <p className="font-medium">{prayer.prayer_name}</p>
                             <p className="text-sm text-muted-foreground">
@@ -367,6 +500,9 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
+                          <Badge variant="outline">
+                            {PRAYER_STATUSES[prayer.status].label}
+                          </Badge>
                           {prayer.duration_minutes && (
                             <Badge variant="secondary">
                               {prayer.duration_minutes}m
@@ -386,12 +522,38 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
             </Card>
           </TabsContent>
 
+          <TabsContent value="history">
+            <PrayerHistory
+              prayers={prayers}
+              weeklyStats={getWeeklyStats(location.timezone)}
+              monthlyStats={getMonthlyStats(location.timezone)}
+              today={prayerTimes.date}
+              weekStartsOn={settings?.week_starts_on}
+              onSelectDate={setEditingDate}
+            />
+          </TabsContent>
+
           <TabsContent value="stats">
-            <PrayerStats />
+            <PrayerStats today={prayerTimes.date} />
+          </TabsContent>
+
+          <TabsContent value="qada">
+            <QadaLedger />
           </TabsContent>
 
-          <TabsContent value="reminders">
-            <ReminderSettings />
+          <TabsContent value="reminders" className="space-y-6">
+            <ReminderSettings
+              reminders={reminders}
+              onUpdateReminder={updateReminder}
+              onCreateReminder={createReminder}
+              onDeleteReminder={deleteReminder}
+              onTestNotification={testNotification}
+              settings={settings}
+              onUpdateSettings={updateSettings}
+              location={location}
+              calculationParams={calculationParams}
+            />
+            {settings && <FollowUpSettings settings={settings} onUpdateSettings={updateSettings} />}
           </TabsContent>
 
           <TabsContent value="settings">
@@ -409,6 +571,43 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
                     )}
                   </div>
                   
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <h3 className="font-medium mb-4">Location</h3>
+                    <LocationPicker
+                      location={userLocation}
+                      onSelectCity={selectCity}
+                      onDetectLocation={detectLocation}
+                    />
+                  </div>
+
+                  {settings && (
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h3 className="font-medium mb-4">Prayer Times</h3>
+                      <CalculationSettings settings={settings} onUpdateSettings={updateSettings} />
+                    </div>
+                  )}
+
+                  {settings && (
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h3 className="font-medium mb-4">Streaks</h3>
+                      <StreakSettings
+                        settings={settings}
+                        onUpdateSettings={async (updates) => {
+                          await updateSettings(updates)
+                          // The streak in the header is derived with these settings
+                          await loadPrayerData()
+                        }}
+                      />
+                    </div>
+                  )}
+
+                  {settings && (
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h3 className="font-medium mb-4">Reports</h3>
+                      <ReportSettings settings={settings} onUpdateSettings={updateSettings} />
+                    </div>
+                  )}
+
                   <div className="p-4 bg-muted/50 rounded-lg">
                     <h3 className="font-medium mb-2">Prayer Tracking</h3>
                     <p className="text-sm text-muted-foreground">
@@ -445,6 +644,43 @@ export default function PrayerDashboard({ user }: PrayerDashboardProps) {
           />
         </DialogContent>
       </Dialog>
+
+      {/* Day Detail Dialog */}
+      <Dialog open={!!editingDate} onOpenChange={(open) => !open && setEditingDate(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Day</DialogTitle>
+          </DialogHeader>
+          {editingDate && (
+            <DayDetailEditor
+              date={editingDate}
+              prayers={prayers}
+              location={location}
+              calculationParams={calculationParams}
+              onLogPrayer={savePrayer}
+              onUpdatePrayer={updatePrayer}
+              onDeletePrayer={deletePrayer}
+              onRestorePrayer={restorePrayer}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Conflict Review Dialog */}
+      <Dialog open={showConflicts} onOpenChange={setShowConflicts}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Review Differing Notes</DialogTitle>
+          </DialogHeader>
+          <ConflictReview
+            conflicts={conflicts}
+            onResolve={async (conflictId, notes) => {
+              await resolveConflict(conflictId, notes)
+              if (conflicts.length <= 1) setShowConflicts(false)
+            }}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -10,13 +10,17 @@ import {
   TrendingUp, 
   Filter,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Grid3x3
 } from 'lucide-react'
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday, isSameDay } from 'date-fns'
-import { PrayerLog } from '../hooks/usePrayerData'
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday } from 'date-fns'
+import { Prayer } from '../types/prayer'
+import { isPrayerPerformed } from '../lib/prayerStatus'
+import { DEFAULT_WEEK_START, WEEKDAY_NAMES } from '../lib/chartStats'
+import YearHeatmap from './YearHeatmap'
 
 interface PrayerHistoryProps {
-  prayerLogs: PrayerLog[]
+  prayers: Prayer[]
   weeklyStats: Array<{
     date: string
     completed: number
@@ -29,6 +33,9 @@ interface PrayerHistoryProps {
     mostPrayedTime: string
     totalDuration: number
   }
+  today: string // "yyyy-MM-dd" in the location's timezone
+  weekStartsOn?: number // 0 = Sunday ... 6 = Saturday
+  onSelectDate?: (date: string) => void // Opens the day-detail editor
 }
 
 const PRAYER_COLORS = {
@@ -39,15 +46,22 @@ const PRAYER_COLORS = {
   'Isha': 'bg-indigo-500'
 }
 
-export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }: PrayerHistoryProps) {
+export default function PrayerHistory({
+  prayers,
+  weeklyStats,
+  monthlyStats,
+  today,
+  weekStartsOn = DEFAULT_WEEK_START,
+  onSelectDate
+}: PrayerHistoryProps) {
   const [selectedMonth, setSelectedMonth] = useState(new Date())
   const [selectedPrayer, setSelectedPrayer] = useState<string | null>(null)
 
   const getFilteredLogs = () => {
-    let filtered = prayerLogs
+    let filtered = prayers
     
     if (selectedPrayer) {
-      filtered = filtered.filter(log => log.prayerName === selectedPrayer)
+      filtered = filtered.filter(log => log.prayer_name === selectedPrayer)
     }
     
     return filtered.slice(0, 50) // Limit to recent 50 entries
@@ -59,10 +73,9 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
     const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd })
     
     return daysInMonth.map(day => {
-      const dayLogs = prayerLogs.filter(log => 
-        isSameDay(new Date(log.loggedAt), day)
-      )
-      const uniquePrayers = new Set(dayLogs.map(log => log.prayerName))
+      const dateKey = format(day, 'yyyy-MM-dd')
+      const dayLogs = prayers.filter(log => log.prayer_date === dateKey)
+      const uniquePrayers = new Set(dayLogs.filter(isPrayerPerformed).map(log => log.prayer_name))
       
       return {
         date: day,
@@ -139,13 +152,17 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
               ) : (
                 <div className="space-y-3 max-h-96 overflow-y-auto">
                   {filteredLogs.map((log) => (
-                    <div key={log.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    <div
+                      key={log.id}
+                      className="flex items-center justify-between p-3 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted"
+                      onClick={() => onSelectDate?.(log.prayer_date)}
+                    >
                       <div className="flex items-center gap-3">
-                        <div className={`w-3 h-3 rounded-full ${PRAYER_COLORS[log.prayerName as keyof typeof PRAYER_COLORS] || 'bg-gray-500'}`}></div>
+                        <div className={`w-3 h-3 rounded-full ${PRAYER_COLORS[log.prayer_name as keyof typeof PRAYER_COLORS] || 'bg-gray-500'}`}></div>
                         <div>
-                          <p className="font-medium">{log.prayerName}</p>
+                          <p className="font-medium">{log.prayer_name}</p>
                           <p className="text-sm text-muted-foreground">
-                            {format(new Date(log.loggedAt), 'MMM d, yyyy • h:mm a')}
+                            {format(new Date(log.logged_at), 'MMM d, yyyy • h:mm a')}
                           </p>
                           {log.notes && (
                             <p className="text-xs text-muted-foreground mt-1 italic">
@@ -155,12 +172,12 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        {log.durationMinutes && (
+                        {log.duration_minutes && (
                           <Badge variant="secondary">
-                            {formatDuration(log.durationMinutes)}
+                            {formatDuration(log.duration_minutes)}
                           </Badge>
                         )}
-                        {isToday(new Date(log.loggedAt)) && (
+                        {isToday(new Date(log.logged_at)) && (
                           <Badge className="bg-green-500">Today</Badge>
                         )}
                       </div>
@@ -173,6 +190,18 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
         </TabsContent>
 
         <TabsContent value="calendar" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Grid3x3 className="h-5 w-5" />
+                Year at a Glance
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <YearHeatmap prayers={prayers} today={today} weekStartsOn={weekStartsOn} onSelectDate={onSelectDate} />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -195,13 +224,17 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-7 gap-2 mb-4">
-                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                {WEEKDAY_NAMES.map((_, i) => WEEKDAY_NAMES[(i + weekStartsOn) % 7].slice(0, 3)).map(day => (
                   <div key={day} className="text-center text-sm font-medium text-muted-foreground p-2">
                     {day}
                   </div>
                 ))}
               </div>
               <div className="grid grid-cols-7 gap-2">
+                {/* Blank cells up to the weekday the month starts on */}
+                {Array.from({ length: (startOfMonth(selectedMonth).getDay() - weekStartsOn + 7) % 7 }, (_, i) => (
+                  <div key={`blank-${i}`} />
+                ))}
                 {calendarData.map((day, index) => {
                   const completionRate = (day.completed / day.total) * 100
                   const isCurrentDay = isToday(day.date)
@@ -209,9 +242,10 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
                   return (
                     <div
                       key={index}
-                      className={`aspect-square p-2 rounded-lg border text-center relative ${
+                      className={`aspect-square p-2 rounded-lg border text-center relative cursor-pointer hover:bg-muted ${
                         isCurrentDay ? 'border-primary bg-primary/10' : 'border-border'
                       }`}
+                      onClick={() => onSelectDate?.(format(day.date, 'yyyy-MM-dd'))}
                     >
                       <div className="text-sm font-medium">
                         {format(day.date, 'd')}
@@ -315,8 +349,9 @@ export default function PrayerHistory({ prayerLogs, weeklyStats, monthlyStats }:
             <CardContent>
               <div className="grid grid-cols-5 gap-4">
                 {Object.entries(PRAYER_COLORS).map(([prayer, color]) => {
-                  const prayerCount = prayerLogs.filter(log => log.prayerName === prayer).length
-                  const percentage = prayerLogs.length > 0 ? (prayerCount / prayerLogs.length) * 100 : 0
+                  const performedPrayers = prayers.filter(isPrayerPerformed)
+                  const prayerCount = performedPrayers.filter(log => log.prayer_name === prayer).length
+                  const percentage = performedPrayers.length > 0 ? (prayerCount / performedPrayers.length) * 100 : 0
                   
                   return (
                     <div key={prayer} className="text-center">
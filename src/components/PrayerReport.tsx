@@ -0,0 +1,312 @@
+import { ReactNode, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ChevronLeft, ChevronRight, FileDown, Printer } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { toast } from 'sonner'
+import { PrayerStatus, StreakDayOutcome } from '../types/prayer'
+import { ReportService } from '../services/reportService'
+import { PRAYER_STATUSES } from '../lib/prayerStatus'
+import { STREAK_OUTCOMES } from '../lib/streaks'
+import {
+  PrayerReport as PrayerReportData,
+  REPORT_PERIODS,
+  ReportPeriod,
+  getReportRange,
+  shiftReportRange
+} from '../lib/report'
+
+interface PrayerReportProps {
+  today: string // "yyyy-MM-dd" in the location's timezone
+}
+
+const HEATMAP_OPACITY = [1, 0.3, 0.5, 0.75, 1]
+const TABLE_STATUSES: PrayerStatus[] = ['on_time', 'late', 'qada', 'missed', 'excused']
+
+const formatMinutes = (minutes: number | null) => minutes === null ? '–' : `${minutes}m`
+
+function ReportSection({ title, children }: { title: string, children: ReactNode }) {
+  return (
+    <section className="space-y-3 break-inside-avoid">
+      <h3 className="font-semibold border-b pb-1">{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+// The report itself; rendered once as the on-screen preview and once for printing
+function ReportDocument({ report }: { report: PrayerReportData }) {
+  const { summary, streak } = report
+  const lastWeek = report.heatmap.length > 0 ? report.heatmap[report.heatmap.length - 1].week : 0
+  const brokenDays = streak.days.filter(day => day.outcome !== 'kept')
+  // A year's 53 weeks have to fit the width of a printed page
+  const cellSize = lastWeek > 20 ? '0.6rem' : '0.875rem'
+
+  return (
+    <div className="space-y-6 text-sm">
+      <header className="space-y-1">
+        <h2 className="text-xl font-bold">Prayer Report · {report.range.label}</h2>
+        <p className="text-muted-foreground">
+          {format(parseISO(report.range.from), 'MMM d, yyyy')} – {format(parseISO(report.range.to), 'MMM d, yyyy')}
+          {' · '}generated {format(new Date(report.generatedAt), 'MMM d, yyyy h:mm a')}
+        </p>
+      </header>
+
+      <ReportSection title="Summary">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div>
+            <div className="text-2xl font-bold">{summary.totalPrayers}</div>
+            <div className="text-muted-foreground">Prayers performed</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{summary.prayerCompletion.rate}%</div>
+            <div className="text-muted-foreground">
+              Completed ({summary.prayerCompletion.count}/{summary.prayerCompletion.total} due)
+            </div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{summary.dayCompletion.rate}%</div>
+            <div className="text-muted-foreground">
+              Complete days ({summary.dayCompletion.count}/{summary.dayCompletion.total})
+            </div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{summary.onTimeRate.rate}%</div>
+            <div className="text-muted-foreground">On time</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{formatMinutes(summary.averageDuration)}</div>
+            <div className="text-muted-foreground">Average duration</div>
+          </div>
+        </div>
+      </ReportSection>
+
+      <ReportSection title="By Prayer">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Prayer</TableHead>
+              <TableHead className="text-right">Completed</TableHead>
+              {TABLE_STATUSES.map(status => (
+                <TableHead key={status} className="text-right">{PRAYER_STATUSES[status].label}</TableHead>
+              ))}
+              <TableHead className="text-right">Avg duration</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.perPrayer.map(row => (
+              <TableRow key={row.prayer_name}>
+                <TableCell className="font-medium">{row.prayer_name}</TableCell>
+                <TableCell className="text-right">
+                  {row.completion.count}/{row.completion.total} ({row.completion.rate}%)
+                </TableCell>
+                {TABLE_STATUSES.map(status => (
+                  <TableCell key={status} className="text-right">{row.statusCounts[status]}</TableCell>
+                ))}
+                <TableCell className="text-right">{formatMinutes(row.averageDuration)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ReportSection>
+
+      <ReportSection title="Heatmap">
+        <div
+          className="grid gap-0.5 w-fit"
+          style={{ gridTemplateColumns: `repeat(${lastWeek + 1}, ${cellSize})`, gridTemplateRows: `repeat(7, ${cellSize})` }}
+        >
+          {report.heatmap.map(day => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${Math.round(day.score * 100)}%`}
+              className={`rounded-sm ${day.level === 0 || day.future ? 'bg-muted' : 'bg-primary'}`}
+              style={{
+                gridColumn: day.week + 1,
+                gridRow: day.weekday + 1,
+                opacity: day.future ? 0.4 : HEATMAP_OPACITY[day.level]
+              }}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          One square per day; darker days had more prayers, prayed closer to their start.
+        </p>
+      </ReportSection>
+
+      <ReportSection title="Streak History">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">Longest {streak.longest} {streak.longest === 1 ? 'day' : 'days'}</Badge>
+          <Badge variant="secondary">At end {streak.atEnd} {streak.atEnd === 1 ? 'day' : 'days'}</Badge>
+          {(Object.keys(STREAK_OUTCOMES) as StreakDayOutcome[])
+            .filter(outcome => streak.outcomes[outcome] > 0)
+            .map(outcome => (
+              <Badge key={outcome} variant="outline">
+                {STREAK_OUTCOMES[outcome].label}: {streak.outcomes[outcome]}
+              </Badge>
+            ))}
+        </div>
+        {brokenDays.length > 0 && (
+          <div className="space-y-1">
+            {brokenDays.map(day => (
+              <div key={day.date} className="flex items-start gap-3">
+                <div className={`w-2 h-2 mt-1.5 rounded-full ${STREAK_OUTCOMES[day.outcome].color}`}></div>
+                <span className="w-24 shrink-0">{format(parseISO(day.date), 'EEE, MMM d')}</span>
+                <span className="text-muted-foreground">{day.reason}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </ReportSection>
+
+      <ReportSection title="Qada Balance">
+        {report.qada.length === 0 ? (
+          <p className="text-muted-foreground">No qada backlog recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prayer</TableHead>
+                <TableHead className="text-right">Owed</TableHead>
+                <TableHead className="text-right">Made up</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.qada.map(balance => (
+                <TableRow key={balance.prayer_name}>
+                  <TableCell className="font-medium">{balance.prayer_name}</TableCell>
+                  <TableCell className="text-right">{balance.estimated + balance.accrued}</TableCell>
+                  <TableCell className="text-right">{balance.repaid}</TableCell>
+                  <TableCell className="text-right">{balance.remaining}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground">As of today, across your whole history.</p>
+      </ReportSection>
+
+      <ReportSection title="Notes">
+        {report.notes.length === 0 ? (
+          <p className="text-muted-foreground">No notes in this period.</p>
+        ) : (
+          <div className="space-y-2">
+            {report.notes.map(prayer => (
+              <div key={prayer.id}>
+                <span className="font-medium">
+                  {format(parseISO(prayer.prayer_date), 'MMM d')} · {prayer.prayer_name}
+                </span>
+                <p className="text-muted-foreground italic whitespace-pre-wrap">"{prayer.notes}"</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </ReportSection>
+    </div>
+  )
+}
+
+export default function PrayerReport({ today }: PrayerReportProps) {
+  const [period, setPeriod] = useState<ReportPeriod>('hijri_month')
+  const [range, setRange] = useState(() => getReportRange('hijri_month', today))
+  const [report, setReport] = useState<PrayerReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    ReportService.getReport(range)
+      .then(data => {
+        if (!cancelled) setReport(data)
+      })
+      .catch(error => {
+        console.error('Failed to build report:', error)
+        toast.error('Failed to build report')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [range])
+
+  const selectPeriod = (value: string) => {
+    setPeriod(value as ReportPeriod)
+    setRange(getReportRange(value as ReportPeriod, today))
+  }
+
+  // The browser's print dialog saves PDFs, and uses the page title as the file name
+  const printReport = (asPdf: boolean) => {
+    const title = document.title
+    if (asPdf) {
+      document.title = `Prayer Report - ${range.label}`
+      toast.info('Choose "Save as PDF" as the printer')
+    }
+    window.addEventListener('afterprint', () => {
+      document.title = title
+    }, { once: true })
+    window.print()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={period} onValueChange={selectPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(REPORT_PERIODS).map(([value, info]) => (
+              <SelectItem key={value} value={value}>
+                {info.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setRange(shiftReportRange(period, range, -1))}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="font-medium min-w-[140px] text-center">{range.label}</span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={range.to >= today}
+          onClick={() => setRange(shiftReportRange(period, range, 1))}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <div className="flex gap-2 ml-auto">
+          <Button variant="outline" size="sm" disabled={!report || loading} onClick={() => printReport(false)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button size="sm" disabled={!report || loading} onClick={() => printReport(true)}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Save as PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[65vh] overflow-y-auto rounded-lg border p-6">
+        {report ? (
+          <ReportDocument report={report} />
+        ) : (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        )}
+      </div>
+
+      {report && createPortal(
+        <div className="print-report hidden print:block p-8 bg-background text-foreground">
+          <ReportDocument report={report} />
+        </div>,
+        document.body
+      )}
+    </div>
+  )
+}
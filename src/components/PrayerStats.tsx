@@ -1,36 +1,95 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { 
   TrendingUp, 
   Clock, 
-  Calendar, 
   Target,
   Award,
   BarChart3,
-  Activity
+  Activity,
+  Flame,
+  Timer,
+  FileText
 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import {
+  PrayerChartStats,
+  PrayerStats as PrayerStatsData,
+  PrayerStatus,
+  PunctualityBucket,
+  StatsRange,
+  StatsRangePreset
+} from '../types/prayer'
 import { PrayerService } from '../services/prayerService'
+import { PRAYER_STATUSES } from '../lib/prayerStatus'
+import { PUNCTUALITY_BUCKETS } from '../lib/punctuality'
+import { STREAK_OUTCOMES } from '../lib/streaks'
+import PrayerCharts from './PrayerCharts'
+import StatsRangePicker from './StatsRangePicker'
+import PrayerReport from './PrayerReport'
 
-export default function PrayerStats() {
-  const [stats, setStats] = useState<any>(null)
-  const [loading, setLoading] = useState(true)
+const COMPLETION_METRICS: { key: 'prayerCompletion' | 'dayCompletion' | 'onTimeRate', label: string, unit: string }[] = [
+  { key: 'prayerCompletion', label: 'Prayers completed', unit: 'due' },
+  { key: 'dayCompletion', label: 'Complete days', unit: 'days' },
+  { key: 'onTimeRate', label: 'Prayed on time', unit: 'due' }
+]
 
-  useEffect(() => {
-    loadStats()
-  }, [])
+const formatDelay = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+
+// Share of prayers in each punctuality bucket as one segmented bar
+function BucketBar({ buckets, total }: { buckets: Record<PunctualityBucket, number>, total: number }) {
+  if (total === 0) {
+    return <div className="h-2 rounded-full bg-muted" />
+  }
+  return (
+    <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+      {(Object.keys(PUNCTUALITY_BUCKETS) as PunctualityBucket[]).map(bucket => buckets[bucket] > 0 && (
+        <div
+          key={bucket}
+          className={PUNCTUALITY_BUCKETS[bucket].color}
+          style={{ width: `${(buckets[bucket] / total) * 100}%` }}
+          title={`${PUNCTUALITY_BUCKETS[bucket].label}: ${buckets[bucket]}`}
+        />
+      ))}
+    </div>
+  )
+}
 
-  const loadStats = async () => {
+interface PrayerStatsProps {
+  today: string // "yyyy-MM-dd" in the location's timezone
+}
+
+export default function PrayerStats({ today }: PrayerStatsProps) {
+  const [stats, setStats] = useState<PrayerStatsData | null>(null)
+  const [chartStats, setChartStats] = useState<PrayerChartStats | null>(null)
+  const [preset, setPreset] = useState<StatsRangePreset>('30d')
+  const [custom, setCustom] = useState<Partial<StatsRange>>({})
+  const [loading, setLoading] = useState(true)
+  const [showReport, setShowReport] = useState(false)
+
+  const loadStats = useCallback(async () => {
     try {
-      const statsData = await PrayerService.getPrayerStats()
+      const [statsData, chartData] = await Promise.all([
+        PrayerService.getPrayerStats(preset, custom),
+        PrayerService.getChartStats(preset, custom)
+      ])
       setStats(statsData)
+      setChartStats(chartData)
     } catch (error) {
       console.error('Failed to load stats:', error)
     } finally {
       setLoading(false)
     }
-  }
+  }, [preset, custom])
+
+  useEffect(() => {
+    loadStats()
+  }, [loadStats])
 
   if (loading) {
     return (
@@ -60,6 +119,27 @@ export default function PrayerStats() {
 
   return (
     <div className="space-y-6">
+      {/* Reporting Window */}
+      <Card>
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-start gap-4">
+          <div className="flex-1">
+            <StatsRangePicker
+              preset={preset}
+              custom={custom}
+              range={stats.range}
+              onChange={(nextPreset, nextCustom) => {
+                setPreset(nextPreset)
+                setCustom(nextCustom)
+              }}
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowReport(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Printable Report
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -111,58 +191,197 @@ export default function PrayerStats() {
         </Card>
       </div>
 
-      {/* Completion Rate */}
+      {/* Completion */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Completion
+            </CardTitle>
+            <Badge 
+              variant={stats.prayerCompletion.rate >= 80 ? "default" : stats.prayerCompletion.rate >= 60 ? "secondary" : "destructive"}
+            >
+              {stats.prayerCompletion.rate >= 80 ? 'Excellent' : stats.prayerCompletion.rate >= 60 ? 'Good' : 'Needs Improvement'}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {COMPLETION_METRICS.map(({ key, label, unit }) => (
+              <div key={key} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{label}</span>
+                  <span className="text-muted-foreground">
+                    {stats[key].count} of {stats[key].total} {unit} · {stats[key].rate}%
+                  </span>
+                </div>
+                <Progress value={stats[key].rate} className="h-2" />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Excused prayers aren't due, and today's prayers only count once logged or once their window has closed.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Status Breakdown */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <TrendingUp className="h-5 w-5" />
-            Completion Rate (Last 30 Days)
+            <Clock className="h-5 w-5" />
+            Prayer Status
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">
-                {Math.round(stats.completionRate)}% of prayers completed
-              </span>
-              <Badge 
-                variant={stats.completionRate >= 80 ? "default" : stats.completionRate >= 60 ? "secondary" : "destructive"}
-              >
-                {stats.completionRate >= 80 ? 'Excellent' : stats.completionRate >= 60 ? 'Good' : 'Needs Improvement'}
-              </Badge>
-            </div>
-            <Progress value={stats.completionRate} className="h-3" />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {(Object.keys(PRAYER_STATUSES) as PrayerStatus[]).map(status => (
+              <div key={status} className="text-center p-3 bg-muted/50 rounded-lg">
+                <div className={`w-3 h-3 ${PRAYER_STATUSES[status].color} rounded-full mx-auto mb-2`}></div>
+                <p className="text-2xl font-bold">{stats.statusCounts[status]}</p>
+                <p className="text-sm font-medium">{PRAYER_STATUSES[status].label}</p>
+                <p className="text-xs text-muted-foreground">{PRAYER_STATUSES[status].description}</p>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
 
-      {/* Weekly Overview */}
+      {/* Per-Prayer Streaks */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Calendar className="h-5 w-5" />
-            This Week's Progress
+            <Target className="h-5 w-5" />
+            Per-Prayer Consistency (Last 30 Days)
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            {stats.weeklyStats.map((day: any, index: number) => (
-              <div key={index} className="flex items-center justify-between">
-                <span className="text-sm font-medium w-12">{day.date}</span>
-                <div className="flex-1 mx-3">
-                  <Progress 
-                    value={(day.completed / day.total) * 100} 
-                    className="h-2"
-                  />
+          <div className="space-y-4">
+            {stats.prayerStreaks.map((prayer) => (
+              <div key={prayer.prayer_name} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium w-20">{prayer.prayer_name}</span>
+                  <span className="text-muted-foreground flex items-center gap-1">
+                    <Flame className="h-3 w-3" />
+                    {prayer.current_streak} {prayer.current_streak === 1 ? 'day' : 'days'}
+                    <span className="ml-2">best {prayer.longest_streak}</span>
+                  </span>
+                  <span className="font-medium w-12 text-right">{prayer.consistency}%</span>
                 </div>
-                <span className="text-sm text-muted-foreground w-12 text-right">
-                  {day.completed}/{day.total}
+                <Progress value={prayer.consistency} className="h-2" />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Punctuality */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Punctuality (Last 30 Days)
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-4">
+            {stats.punctuality.map((prayer) => (
+              <div key={prayer.prayer_name} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{prayer.prayer_name}</span>
+                  <span className="text-muted-foreground">
+                    {prayer.medianDelay === null ? 'No prayers in their window yet' : `Median ${formatDelay(prayer.medianDelay)} after adhan`}
+                  </span>
+                </div>
+                <BucketBar buckets={prayer.buckets} total={prayer.total} />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+            {Object.entries(PUNCTUALITY_BUCKETS).map(([bucket, info]) => (
+              <div key={bucket} className="flex items-center gap-1">
+                <div className={`w-3 h-3 rounded-sm ${info.color}`}></div>
+                {info.label}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Weekly Trend</p>
+            {stats.punctualityTrend.map((week) => (
+              <div key={week.weekStart} className="flex items-center gap-3 text-sm">
+                <span className="w-16 text-muted-foreground">{format(parseISO(week.weekStart), 'MMM d')}</span>
+                <div className="flex-1">
+                  <BucketBar buckets={week.buckets} total={week.total} />
+                </div>
+                <span className="w-20 text-right text-muted-foreground">
+                  {week.medianDelay === null ? '–' : formatDelay(week.medianDelay)}
                 </span>
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
+
+      {/* Streak Breakdown */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Flame className="h-5 w-5" />
+              Streak Breakdown (Last 30 Days)
+            </CardTitle>
+            {stats.freezeTokens > 0 && (
+              <Badge variant="secondary">
+                {stats.freezeTokens} freeze {stats.freezeTokens === 1 ? 'token' : 'tokens'}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {stats.streakDays.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Log your prayers to see how each day counts toward your streak.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {[...stats.streakDays].reverse().map((day) => (
+                <div key={day.date} className="flex items-start justify-between gap-4 p-2 rounded-lg bg-muted/50">
+                  <div className="flex items-start gap-3">
+                    <div className={`w-2 h-2 mt-1.5 rounded-full ${STREAK_OUTCOMES[day.outcome].color}`}></div>
+                    <div>
+                      <p className="text-sm font-medium">
+                        {format(parseISO(day.date), 'EEE, MMM d')}
+                        <span className="text-muted-foreground font-normal ml-2">
+                          {STREAK_OUTCOMES[day.outcome].label}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{day.reason}</p>
+                    </div>
+                  </div>
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">
+                    {day.streak} {day.streak === 1 ? 'day' : 'days'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Charts */}
+      {chartStats && <PrayerCharts stats={chartStats} />}
+
+      <Dialog open={showReport} onOpenChange={setShowReport}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Prayer Report</DialogTitle>
+          </DialogHeader>
+          <PrayerReport today={today} />
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
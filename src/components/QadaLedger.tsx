@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { CalendarCheck, Plus, Scale, Trash2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { QadaBacklog, QadaBalance, QadaRepayment, DAILY_PRAYERS } from '../types/prayer'
+import { QadaService } from '../services/qadaService'
+import { buildRepaymentPlan, describePlanLength } from '../lib/qadaLedger'
+
+const clampCount = (value: string, max: number) => Math.max(0, Math.min(max, Math.round(Number(value) || 0)))
+
+export default function QadaLedger() {
+  const [balances, setBalances] = useState<QadaBalance[]>([])
+  const [repayments, setRepayments] = useState<QadaRepayment[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadLedger()
+  }, [])
+
+  const loadLedger = async () => {
+    try {
+      const [balanceData, repaymentData] = await Promise.all([
+        QadaService.getBalances(),
+        QadaService.getRepayments()
+      ])
+      setBalances(balanceData)
+      setRepayments(repaymentData)
+    } catch (error) {
+      console.error('Failed to load qada ledger:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateBacklog = async (prayerName: string, updates: Partial<QadaBacklog>) => {
+    try {
+      await QadaService.updateBacklog(prayerName, updates)
+      await loadLedger()
+    } catch (error) {
+      console.error('Failed to update qada backlog:', error)
+      toast.error('Failed to update qada backlog')
+    }
+  }
+
+  const logRepayment = async (prayerName: string) => {
+    try {
+      await QadaService.logRepayment(prayerName)
+      await loadLedger()
+      toast.success(`Qada ${prayerName} logged`, {
+        description: 'May Allah accept it from you.'
+      })
+    } catch (error) {
+      console.error('Failed to log qada repayment:', error)
+      toast.error('Failed to log qada prayer')
+    }
+  }
+
+  const deleteRepayment = async (repaymentId: string) => {
+    try {
+      await QadaService.deleteRepayment(repaymentId)
+      await loadLedger()
+    } catch (error) {
+      console.error('Failed to delete qada repayment:', error)
+      toast.error('Failed to delete repayment')
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const plan = buildRepaymentPlan(balances)
+  const totalRemaining = balances.reduce((sum, b) => sum + b.remaining, 0)
+  const totalRepaid = balances.reduce((sum, b) => sum + b.repaid, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Balance Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Remaining</p>
+            <p className="text-2xl font-bold">{totalRemaining}</p>
+            <p className="text-xs text-muted-foreground">make-up prayers owed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Repaid</p>
+            <p className="text-2xl font-bold">{totalRepaid}</p>
+            <p className="text-xs text-muted-foreground">make-up prayers logged</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Projected Completion</p>
+            <p className="text-2xl font-bold">
+              {totalRemaining === 0
+                ? 'Done'
+                : plan.completionDate ? format(plan.completionDate, 'MMM yyyy') : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {totalRemaining === 0
+                ? 'No make-up prayers owed'
+                : plan.days !== null
+                  ? `In ${describePlanLength(plan.days)} at your daily targets`
+                  : 'Set a daily target for every prayer owed'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Qada Ledger
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {balances.map((balance) => {
+            const prayer = DAILY_PRAYERS.find(p => p.name === balance.prayer_name)
+            return (
+              <div key={balance.prayer_name} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className={`w-3 h-3 rounded-full ${prayer?.color || 'bg-primary'}`}></div>
+                    <div>
+                      <p className="font-medium">{balance.prayer_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {balance.estimated} estimated
+                        {balance.accrue_missed && ` + ${balance.accrued} missed`}
+                        {` − ${balance.repaid} repaid`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={balance.remaining > 0 ? 'secondary' : 'outline'}>
+                      {balance.remaining} left
+                    </Badge>
+                    <Button
+                      size="sm"
+                      onClick={() => logRepayment(balance.prayer_name)}
+                      disabled={balance.remaining === 0}
+                      className="flex items-center gap-1"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Prayed 1
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`qada-estimate-${balance.prayer_name}`} className="text-sm">
+                      Estimated backlog
+                    </Label>
+                    <Input
+                      id={`qada-estimate-${balance.prayer_name}`}
+                      type="number"
+                      min={0}
+                      defaultValue={balance.estimated}
+                      className="w-28"
+                      onBlur={(e) => {
+                        const count = clampCount(e.target.value, 100000)
+                        if (count !== balance.estimated) {
+                          updateBacklog(balance.prayer_name, { estimated_count: count })
+                        }
+                      }}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`qada-accrue-${balance.prayer_name}`}
+                      checked={balance.accrue_missed}
+                      onCheckedChange={(checked) => updateBacklog(balance.prayer_name, { accrue_missed: checked ? "1" : "0" })}
+                    />
+                    <Label htmlFor={`qada-accrue-${balance.prayer_name}`} className="text-sm">
+                      Add missed prayers
+                    </Label>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+          <p className="text-xs text-muted-foreground">
+            Estimate what you owe from before you started tracking. Prayers you mark as missed are added
+            automatically unless you turn that off; a missed prayer you later log as qada is not counted.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Repayment Plan */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Repayment Plan
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {plan.entries.map((entry) => (
+            <div key={entry.prayer_name} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={20}
+                  defaultValue={entry.daily_target}
+                  className="w-20"
+                  aria-label={`Extra ${entry.prayer_name} prayers per day`}
+                  onBlur={(e) => {
+                    const target = clampCount(e.target.value, 20)
+                    if (target !== entry.daily_target) {
+                      updateBacklog(entry.prayer_name, { daily_target: target })
+                    }
+                  }}
+                />
+                <span className="text-sm">extra {entry.prayer_name} per day</span>
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {entry.remaining === 0
+                  ? 'Nothing owed'
+                  : entry.days !== null && entry.completionDate
+                    ? `Finishes in ${describePlanLength(entry.days)} (${format(entry.completionDate, 'MMM d, yyyy')})`
+                    : `${entry.remaining} owed, not scheduled`}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Recent Repayments */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Repayments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {repayments.length > 0 ? (
+            <div className="space-y-2">
+              {repayments.slice(0, 20).map((repayment) => (
+                <div key={repayment.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <p className="font-medium">
+                      {repayment.count > 1 ? `${repayment.count} × ` : ''}{repayment.prayer_name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(repayment.repaid_at), 'MMM d, yyyy • h:mm a')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRepayment(repayment.id)}
+                    aria-label="Delete repayment"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No make-up prayers logged yet.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
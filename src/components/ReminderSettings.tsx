@@ -1,33 +1,52 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Switch } from './ui/switch'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { Badge } from './ui/badge'
-import { Bell, BellOff, TestTube, Volume2 } from 'lucide-react'
-import { PrayerReminder } from '../hooks/usePrayerData'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Slider } from './ui/slider'
+import { Bell, BellOff, Music, Play, Plus, Square, TestTube, Trash2, Volume2 } from 'lucide-react'
+import { PrayerLocation, PrayerReminder, PrayerSettings, ReminderAnchor, ReminderSound, DAILY_PRAYERS } from '../types/prayer'
+import { calculatePrayerTimes, getReminderTimes } from '../lib/prayerTimes'
+import { CalculationParams } from '../lib/calculationMethods'
+import { REMINDER_ANCHORS, describeReminder, getReminderAnchor, resolveReminder } from '../lib/reminders'
+import { AVAILABLE_SOUNDS, HAS_RECORDINGS, MAX_FADE_IN_SECONDS, REMINDER_SOUNDS, toAudioPolicy } from '../lib/reminderSounds'
+import { formatTimeInZone, getDateKey } from '../lib/timezone'
+import { AudioService, Playback } from '../services/audioService'
 import { toast } from 'sonner'
 
 interface ReminderSettingsProps {
   reminders: PrayerReminder[]
   onUpdateReminder: (reminderId: string, updates: Partial<PrayerReminder>) => void
+  onCreateReminder: (prayerName: string, timing: Pick<PrayerReminder, 'anchor' | 'offset_minutes' | 'reminder_time'>) => void
+  onDeleteReminder: (reminderId: string) => void
   onTestNotification: (prayerName: string) => void
+  settings: PrayerSettings | null
+  onUpdateSettings: (updates: Partial<PrayerSettings>) => void
+  location: PrayerLocation
+  calculationParams: CalculationParams
 }
 
-const PRAYER_TIMES = {
-  'Fajr': '05:30',
-  'Dhuhr': '12:30',
-  'Asr': '15:30',
-  'Maghrib': '18:30',
-  'Isha': '20:00'
-}
+// New reminders start 10 minutes before the adhan
+const DEFAULT_OFFSET_MINUTES = -10
 
 export default function ReminderSettings({ 
   reminders, 
   onUpdateReminder, 
-  onTestNotification 
+  onCreateReminder,
+  onDeleteReminder,
+  onTestNotification,
+  settings,
+  onUpdateSettings,
+  location,
+  calculationParams
 }: ReminderSettingsProps) {
+  const [newPrayer, setNewPrayer] = useState<string>(DAILY_PRAYERS[0].name)
+  const today = getDateKey(new Date(), location.timezone)
+  const audio = toAudioPolicy(settings)
+  const [preview, setPreview] = useState<{ prayerName: string, playback: Playback } | null>(null)
   const [notificationsEnabled, setNotificationsEnabled] = useState(
     'Notification' in window && Notification.permission === 'granted'
   )
@@ -48,11 +67,57 @@ export default function ReminderSettings({
   }
 
   const handleTimeChange = (reminderId: string, newTime: string) => {
-    onUpdateReminder(reminderId, { reminderTime: newTime })
+    onUpdateReminder(reminderId, { reminder_time: newTime })
+  }
+
+  // A reminder switched to a set time starts from today's computed prayer time
+  const handleAnchorChange = (reminder: PrayerReminder, anchor: ReminderAnchor) => {
+    if (anchor === 'absolute' && !reminder.reminder_time) {
+      const prayerTimes = getReminderTimes(calculatePrayerTimes(new Date(), location, calculationParams), location.timezone)
+      onUpdateReminder(reminder.id, { anchor, reminder_time: prayerTimes[reminder.prayer_name] || '12:00' })
+      return
+    }
+    onUpdateReminder(reminder.id, { anchor })
+  }
+
+  // Offsets are stored signed, negative before the anchor
+  const handleOffsetChange = (reminder: PrayerReminder, minutes: number, before: boolean) => {
+    const magnitude = Math.max(0, Math.min(720, Math.round(minutes) || 0))
+    onUpdateReminder(reminder.id, { offset_minutes: before ? -magnitude : magnitude })
+  }
+
+  const handleAddReminder = () => {
+    onCreateReminder(newPrayer, { anchor: 'adhan', offset_minutes: DEFAULT_OFFSET_MINUTES, reminder_time: '' })
+  }
+
+  const getTodaysTime = (reminder: PrayerReminder) => {
+    const at = resolveReminder(reminder, today, location, calculationParams)
+    return at ? formatTimeInZone(at, location.timezone) : null
+  }
+
+  const handleSoundChange = (prayerName: string, sound: ReminderSound) => {
+    onUpdateSettings({ reminder_sounds: JSON.stringify({ ...audio.sounds, [prayerName]: sound }) })
+  }
+
+  // Previews play the chosen sound as the reminder at the adhan would
+  const handlePreview = (prayerName: string) => {
+    if (preview?.prayerName === prayerName) {
+      preview.playback.stop()
+      return
+    }
+    const playback = AudioService.play(audio.sounds[prayerName], {
+      volume: audio.volume,
+      fadeInSeconds: audio.fadeInSeconds,
+      onEnded: () => setPreview(current => current?.playback === playback ? null : current)
+    })
+    setPreview({ prayerName, playback })
   }
 
+  // Nothing keeps playing once the reminders tab is left
+  useEffect(() => () => AudioService.stop(), [])
+
   const handleToggleReminder = (reminderId: string, enabled: boolean) => {
-    onUpdateReminder(reminderId, { isEnabled: enabled })
+    onUpdateReminder(reminderId, { is_enabled: enabled ? "1" : "0" })
   }
 
   const formatTime12Hour = (time24: string) => {
@@ -156,65 +221,242 @@ export default function ReminderSettings({
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {reminders.map((reminder) => (
-              <div key={reminder.id} className="flex items-center justify-between p-4 border rounded-lg">
-                <div className="flex items-center gap-4">
-                  <div className="flex items-center gap-2">
-                    {reminder.isEnabled ? (
-                      <Bell className="h-4 w-4 text-primary" />
-                    ) : (
-                      <BellOff className="h-4 w-4 text-muted-foreground" />
-                    )}
-                    <span className="font-medium">{reminder.prayerName}</span>
+            {reminders.map((reminder) => {
+              const isEnabled = Number(reminder.is_enabled) === 1
+              const anchor = getReminderAnchor(reminder)
+              const offset = reminder.offset_minutes || 0
+              const todaysTime = getTodaysTime(reminder)
+              return (
+                <div key={reminder.id} className="flex flex-col gap-3 p-4 border rounded-lg md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      {isEnabled ? (
+                        <Bell className="h-4 w-4 text-primary" />
+                      ) : (
+                        <BellOff className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className="font-medium">{reminder.prayer_name}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {describeReminder(reminder)}
+                        {todaysTime && ` · today ${todaysTime}`}
+                      </span>
+                    </div>
+                  
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Select
+                        value={anchor}
+                        onValueChange={(value) => handleAnchorChange(reminder, value as ReminderAnchor)}
+                        disabled={!isEnabled}
+                      >
+                        <SelectTrigger className="w-52">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(REMINDER_ANCHORS).map(([value, info]) => (
+                            <SelectItem key={value} value={value}>
+                              {info.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {anchor === 'absolute' ? (
+                        <>
+                          <Input
+                            type="time"
+                            value={reminder.reminder_time}
+                            onChange={(e) => handleTimeChange(reminder.id, e.target.value)}
+                            className="w-32"
+                            disabled={!isEnabled}
+                          />
+                          {reminder.reminder_time && (
+                            <span className="text-sm text-muted-foreground">
+                              ({formatTime12Hour(reminder.reminder_time)})
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={720}
+                            value={Math.abs(offset)}
+                            onChange={(e) => handleOffsetChange(reminder, Number(e.target.value), offset < 0)}
+                            className="w-20"
+                            disabled={!isEnabled}
+                          />
+                          <span className="text-sm text-muted-foreground">min</span>
+                          <Select
+                            value={offset < 0 ? 'before' : 'after'}
+                            onValueChange={(value) => handleOffsetChange(reminder, Math.abs(offset), value === 'before')}
+                            disabled={!isEnabled}
+                          >
+                            <SelectTrigger className="w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="before">before</SelectItem>
+                              <SelectItem value="after">after</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{REMINDER_ANCHORS[anchor].description}</p>
                   </div>
+
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onTestNotification(reminder.prayer_name)}
+                      disabled={!notificationsEnabled}
+                      className="flex items-center gap-1"
+                    >
+                      <TestTube className="h-3 w-3" />
+                      Test
+                    </Button>
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDeleteReminder(reminder.id)}
+                      aria-label={`Delete ${reminder.prayer_name} reminder`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="time"
-                      value={reminder.reminderTime}
-                      onChange={(e) => handleTimeChange(reminder.id, e.target.value)}
-                      className="w-32"
-                      disabled={!reminder.isEnabled}
+                    <Switch
+                      checked={isEnabled}
+                      onCheckedChange={(checked) => handleToggleReminder(reminder.id, checked)}
                     />
-                    <span className="text-sm text-muted-foreground">
-                      ({formatTime12Hour(reminder.reminderTime)})
-                    </span>
                   </div>
                 </div>
+              )
+            })}
 
-                <div className="flex items-center gap-3">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => onTestNotification(reminder.prayerName)}
-                    disabled={!notificationsEnabled}
-                    className="flex items-center gap-1"
-                  >
-                    <TestTube className="h-3 w-3" />
-                    Test
-                  </Button>
-                  
-                  <Switch
-                    checked={reminder.isEnabled}
-                    onCheckedChange={(checked) => handleToggleReminder(reminder.id, checked)}
-                  />
-                </div>
-              </div>
-            ))}
+            <div className="flex items-center gap-2">
+              <Select value={newPrayer} onValueChange={setNewPrayer}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAILY_PRAYERS.map(prayer => (
+                    <SelectItem key={prayer.name} value={prayer.name}>
+                      {prayer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAddReminder} className="flex items-center gap-1">
+                <Plus className="h-4 w-4" />
+                Add Reminder
+              </Button>
+            </div>
           </div>
 
           <div className="mt-6 p-4 bg-muted/50 rounded-lg">
             <h4 className="font-medium mb-2">Reminder Tips:</h4>
             <ul className="text-sm text-muted-foreground space-y-1">
-              <li>• Set reminders 5-10 minutes before prayer time</li>
+              <li>• Set reminders 5-10 minutes before the adhan</li>
+              <li>• Add a second reminder before the window ends as a last call</li>
               <li>• Test notifications to ensure they're working</li>
-              <li>• Adjust times based on your local prayer schedule</li>
+              <li>• Relative reminders follow your location's prayer times automatically</li>
+              <li>• Install the app to your device so reminders still arrive with every tab closed</li>
               <li>• Keep your device volume on to hear notification sounds</li>
             </ul>
           </div>
         </CardContent>
       </Card>
 
+      {/* Sounds */}
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Music className="h-5 w-5" />
+              Sounds
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {DAILY_PRAYERS.map(prayer => {
+              const sound = audio.sounds[prayer.name]
+              const playing = preview?.prayerName === prayer.name
+              return (
+                <div key={prayer.name} className="flex items-center justify-between gap-3">
+                  <div>
+                    <div className="font-medium">{prayer.name}</div>
+                    <p className="text-xs text-muted-foreground">{REMINDER_SOUNDS[sound].description}</p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Select value={sound} onValueChange={(value) => handleSoundChange(prayer.name, value as ReminderSound)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AVAILABLE_SOUNDS.map(id => (
+                          <SelectItem key={id} value={id}>
+                            {REMINDER_SOUNDS[id].name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePreview(prayer.name)}
+                      disabled={sound === 'silent'}
+                      aria-label={playing ? `Stop ${prayer.name} preview` : `Preview ${prayer.name} sound`}
+                    >
+                      {playing ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-2">
+              <div className="space-y-2">
+                <Label>Volume ({audio.volume}%)</Label>
+                <Slider
+                  key={audio.volume}
+                  min={0}
+                  max={100}
+                  step={5}
+                  defaultValue={[audio.volume]}
+                  onValueCommit={([volume]) => onUpdateSettings({ reminder_volume: volume })}
+                />
+              </div>
+
+              {HAS_RECORDINGS && (
+                <div className="space-y-2">
+                  <Label>Fade In (seconds)</Label>
+                  <Input
+                    key={audio.fadeInSeconds}
+                    type="number"
+                    min={0}
+                    max={MAX_FADE_IN_SECONDS}
+                    defaultValue={audio.fadeInSeconds}
+                    onBlur={(e) => {
+                      const seconds = Math.max(0, Math.min(MAX_FADE_IN_SECONDS, Math.round(Number(e.target.value) || 0)))
+                      if (seconds !== audio.fadeInSeconds) onUpdateSettings({ reminder_fade_in: seconds })
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {HAS_RECORDINGS && 'The full adhan plays for reminders at the adhan; earlier and later reminders play the takbir. '}
+              Follow-ups always beep, louder as the window closes. Sounds play while the app is open. With the app
+              closed, notifications use your device's notification sound.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -226,7 +468,7 @@ export default function ReminderSettings({
               variant="outline"
               onClick={() => {
                 reminders.forEach(reminder => {
-                  onUpdateReminder(reminder.id, { isEnabled: true })
+                  onUpdateReminder(reminder.id, { is_enabled: "1" })
                 })
                 toast.success('All reminders enabled')
               }}
@@ -238,7 +480,7 @@ export default function ReminderSettings({
               variant="outline"
               onClick={() => {
                 reminders.forEach(reminder => {
-                  onUpdateReminder(reminder.id, { isEnabled: false })
+                  onUpdateReminder(reminder.id, { is_enabled: "0" })
                 })
                 toast.success('All reminders disabled')
               }}
@@ -249,13 +491,17 @@ export default function ReminderSettings({
             <Button
               variant="outline"
               onClick={() => {
-                reminders.forEach(reminder => {
-                  const defaultTime = PRAYER_TIMES[reminder.prayerName as keyof typeof PRAYER_TIMES]
+                const prayerTimes = getReminderTimes(
+                  calculatePrayerTimes(new Date(), location, calculationParams),
+                  location.timezone
+                )
+                reminders.filter(reminder => getReminderAnchor(reminder) === 'absolute').forEach(reminder => {
+                  const defaultTime = prayerTimes[reminder.prayer_name]
                   if (defaultTime) {
-                    onUpdateReminder(reminder.id, { reminderTime: defaultTime })
+                    onUpdateReminder(reminder.id, { reminder_time: defaultTime })
                   }
                 })
-                toast.success('Reset to default times')
+                toast.success("Set-time reminders reset to today's prayer times")
               }}
             >
               Reset Times
@@ -0,0 +1,37 @@
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { PrayerSettings } from '../types/prayer'
+import { DEFAULT_WEEK_START, WEEKDAY_NAMES } from '../lib/chartStats'
+
+interface ReportSettingsProps {
+  settings: PrayerSettings
+  onUpdateSettings: (updates: Partial<PrayerSettings>) => void
+}
+
+export default function ReportSettings({ settings, onUpdateSettings }: ReportSettingsProps) {
+  const weekStartsOn = settings.week_starts_on ?? DEFAULT_WEEK_START
+
+  return (
+    <div className="space-y-2">
+      <Label>Week Starts On</Label>
+      <Select
+        value={String(weekStartsOn)}
+        onValueChange={(value) => onUpdateSettings({ week_starts_on: Number(value) })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {WEEKDAY_NAMES.map((name, day) => (
+            <SelectItem key={name} value={String(day)}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Used by weekly charts, the punctuality trend and the calendar.
+      </p>
+    </div>
+  )
+}
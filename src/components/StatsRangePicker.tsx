@@ -0,0 +1,60 @@
+import { format, parseISO } from 'date-fns'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group'
+import { StatsRange, StatsRangePreset } from '../types/prayer'
+import { STATS_RANGE_PRESETS } from '../lib/chartStats'
+
+interface StatsRangePickerProps {
+  preset: StatsRangePreset
+  custom: Partial<StatsRange>
+  range?: StatsRange // The window currently shown, once loaded
+  onChange: (preset: StatsRangePreset, custom: Partial<StatsRange>) => void
+}
+
+export default function StatsRangePicker({ preset, custom, range, onChange }: StatsRangePickerProps) {
+  const selectPreset = (value: string) => {
+    if (!value) return // Clicking the selected item would otherwise clear the selection
+    // A custom range starts from the window already shown
+    onChange(value as StatsRangePreset, value === 'custom' && range ? range : custom)
+  }
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup type="single" variant="outline" value={preset} onValueChange={selectPreset} className="flex-wrap justify-start">
+        {Object.entries(STATS_RANGE_PRESETS).map(([value, info]) => (
+          <ToggleGroupItem key={value} value={value} size="sm">
+            {info.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      {preset === 'custom' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="stats-from">From</Label>
+            <Input
+              id="stats-from"
+              type="date"
+              value={custom.from || ''}
+              onChange={(e) => onChange(preset, { ...custom, from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stats-to">To</Label>
+            <Input
+              id="stats-to"
+              type="date"
+              value={custom.to || ''}
+              onChange={(e) => onChange(preset, { ...custom, to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+      {range && (
+        <p className="text-sm text-muted-foreground">
+          {format(parseISO(range.from), 'MMM d, yyyy')} – {format(parseISO(range.to), 'MMM d, yyyy')}
+        </p>
+      )}
+    </div>
+  )
+}
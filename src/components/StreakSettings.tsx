@@ -0,0 +1,79 @@
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { PrayerSettings, StreakMode } from '../types/prayer'
+import { MAX_FREEZE_TOKENS, STREAK_MODES, toStreakPolicy } from '../lib/streaks'
+
+interface StreakSettingsProps {
+  settings: PrayerSettings
+  onUpdateSettings: (updates: Partial<PrayerSettings>) => void
+}
+
+const clampDays = (value: string, max: number) => Math.max(0, Math.min(max, Math.round(Number(value) || 0)))
+
+export default function StreakSettings({ settings, onUpdateSettings }: StreakSettingsProps) {
+  const policy = toStreakPolicy(settings)
+  const mode = STREAK_MODES[policy.mode]
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>What Keeps a Day</Label>
+        <Select
+          value={policy.mode}
+          onValueChange={(value) => onUpdateSettings({ streak_mode: value as StreakMode })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STREAK_MODES).map(([id, option]) => (
+              <SelectItem key={id} value={id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {mode.description}. Excused prayers never break a streak.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Grace Days per Month</Label>
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            defaultValue={policy.graceDaysPerMonth}
+            onBlur={(e) => {
+              const days = clampDays(e.target.value, 10)
+              if (days !== policy.graceDaysPerMonth) onUpdateSettings({ streak_grace_days: days })
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            Days each month that can fall short without breaking the streak.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Earn a Freeze Every</Label>
+          <Input
+            type="number"
+            min={0}
+            max={90}
+            defaultValue={policy.freezeEvery}
+            onBlur={(e) => {
+              const days = clampDays(e.target.value, 90)
+              if (days !== policy.freezeEvery) onUpdateSettings({ streak_freeze_every: days })
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            Kept days in a row per freeze token, up to {MAX_FREEZE_TOKENS} held. A token covers a day once grace days run out. 0 turns freezes off.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { Button } from './ui/button'
+import { CloudOff, RefreshCw } from 'lucide-react'
+import { useSyncStatus } from '../hooks/useSyncStatus'
+
+export default function SyncStatusIndicator() {
+  const { pending, syncing, online, lastError, syncNow } = useSyncStatus()
+
+  if (pending === 0) return null
+
+  const label = `${pending} ${pending === 1 ? 'change' : 'changes'} pending sync`
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => syncNow()}
+      disabled={syncing || !online}
+      title={!online ? 'Offline. Changes are saved on this device and sync when you reconnect.' : lastError}
+      className="flex items-center gap-2 text-muted-foreground"
+    >
+      {online ? (
+        <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+      ) : (
+        <CloudOff className="h-4 w-4" />
+      )}
+      {label}
+    </Button>
+  )
+}
@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react'
+import { Scatter, ScatterChart, XAxis, YAxis } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { ChartConfig, ChartContainer, ChartTooltip } from './ui/chart'
+import { Prayer, PrayerStatus } from '../types/prayer'
+import { PRAYER_STATUSES, PERFORMED_STATUSES } from '../lib/prayerStatus'
+import { buildYearHeatmap, HeatmapDay } from '../lib/heatmap'
+import { DEFAULT_WEEK_START, WEEKDAY_NAMES } from '../lib/chartStats'
+
+interface YearHeatmapProps {
+  prayers: Prayer[]
+  today: string // "yyyy-MM-dd" in the location's timezone
+  weekStartsOn?: number
+  onSelectDate?: (date: string) => void
+}
+
+const chartConfig = {
+  score: {
+    label: 'Prayers',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig
+
+const CELL_SIZE = 11
+const LEVEL_OPACITY = [1, 0.3, 0.5, 0.75, 1]
+
+function HeatmapCell({ cx, cy, payload }: { cx?: number, cy?: number, payload?: HeatmapDay }) {
+  if (cx === undefined || cy === undefined || !payload) return null
+  const empty = payload.level === 0 || payload.future
+  return (
+    <rect
+      x={cx - CELL_SIZE / 2}
+      y={cy - CELL_SIZE / 2}
+      width={CELL_SIZE}
+      height={CELL_SIZE}
+      rx={2}
+      fill={empty ? 'hsl(var(--muted))' : 'var(--color-score)'}
+      fillOpacity={payload.future ? 0.4 : LEVEL_OPACITY[payload.level]}
+      className={payload.future ? undefined : 'cursor-pointer'}
+    />
+  )
+}
+
+function HeatmapTooltip({ active, payload }: { active?: boolean, payload?: { payload: HeatmapDay }[] }) {
+  if (!active || !payload?.length) return null
+  const day = payload[0].payload
+  const performed = PERFORMED_STATUSES.reduce((sum, status) => sum + day.counts[status], 0)
+  const shown: PrayerStatus[] = ['on_time', 'late', 'qada', 'excused']
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{format(parseISO(day.date), 'EEE, MMM d yyyy')}</div>
+      {day.future ? (
+        <div className="text-muted-foreground">Not yet</div>
+      ) : (
+        <>
+          <div className="text-muted-foreground">{performed}/5 prayed</div>
+          {shown.filter(status => day.counts[status] > 0).map(status => (
+            <div key={status} className="flex items-center gap-1.5">
+              <div className={`h-2 w-2 rounded-full ${PRAYER_STATUSES[status].color}`}></div>
+              <span>{PRAYER_STATUSES[status].label}: {day.counts[status]}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function YearHeatmap({ prayers, today, weekStartsOn = DEFAULT_WEEK_START, onSelectDate }: YearHeatmapProps) {
+  const currentYear = Number(today.slice(0, 4))
+  const [year, setYear] = useState(currentYear)
+
+  const years = useMemo(() => {
+    const firstYear = prayers.reduce(
+      (first, prayer) => Math.min(first, Number(prayer.prayer_date.slice(0, 4)) || first),
+      currentYear
+    )
+    return Array.from({ length: currentYear - firstYear + 1 }, (_, i) => currentYear - i)
+  }, [prayers, currentYear])
+
+  const days = useMemo(() => buildYearHeatmap(prayers, year, today, weekStartsOn), [prayers, year, today, weekStartsOn])
+
+  // One tick per month, on the week column holding its first day
+  const monthTicks = useMemo(() => {
+    const ticks = new Map<number, string>()
+    days
+      .filter(day => day.date.endsWith('-01'))
+      .forEach(day => ticks.set(day.week, format(parseISO(day.date), 'MMM')))
+    return ticks
+  }, [days])
+
+  const lastWeek = days.length > 0 ? days[days.length - 1].week : 52
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          Darker days had more prayers, prayed closer to their start
+        </span>
+        <select
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className="text-sm border rounded px-2 py-1"
+        >
+          {years.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <ChartContainer config={chartConfig} className="aspect-auto h-[140px] min-w-[720px] w-full">
+          <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <XAxis
+              type="number"
+              dataKey="week"
+              domain={[-0.5, lastWeek + 0.5]}
+              ticks={[...monthTicks.keys()]}
+              tickFormatter={(week: number) => monthTicks.get(week) || ''}
+              tickLine={false}
+              axisLine={false}
+              interval={0}
+            />
+            <YAxis
+              type="number"
+              dataKey="weekday"
+              domain={[-0.5, 6.5]}
+              ticks={[1, 3, 5]}
+              tickFormatter={(weekday: number) => WEEKDAY_NAMES[(weekday + weekStartsOn) % 7].slice(0, 3)}
+              tickLine={false}
+              axisLine={false}
+              reversed
+              width={32}
+            />
+            <ChartTooltip cursor={false} content={<HeatmapTooltip />} />
+            <Scatter
+              data={days}
+              shape={<HeatmapCell />}
+              isAnimationActive={false}
+              onClick={(cell: { payload?: HeatmapDay }) => {
+                if (cell.payload && !cell.payload.future) onSelectDate?.(cell.payload.date)
+              }}
+            />
+          </ScatterChart>
+        </ChartContainer>
+      </div>
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <span>Less</span>
+        {LEVEL_OPACITY.map((opacity, level) => (
+          <div
+            key={level}
+            className={`h-3 w-3 rounded-sm ${level === 0 ? 'bg-muted' : 'bg-primary'}`}
+            style={level === 0 ? undefined : { opacity }}
+          ></div>
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  )
+}
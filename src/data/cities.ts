@@ -0,0 +1,215 @@
+// Bundled offline gazetteer used by the location picker. Coordinates are in
+// decimal degrees, elevation in metres.
+
+export interface City {
+  name: string
+  country: string
+  latitude: number
+  longitude: number
+  timezone: string
+  elevation: number
+}
+
+export const CITIES: City[] = [
+  // Middle East
+  { name: 'Makkah', country: 'Saudi Arabia', latitude: 21.4225, longitude: 39.8262, timezone: 'Asia/Riyadh', elevation: 277 },
+  { name: 'Madinah', country: 'Saudi Arabia', latitude: 24.4672, longitude: 39.6111, timezone: 'Asia/Riyadh', elevation: 608 },
+  { name: 'Riyadh', country: 'Saudi Arabia', latitude: 24.7136, longitude: 46.6753, timezone: 'Asia/Riyadh', elevation: 612 },
+  { name: 'Jeddah', country: 'Saudi Arabia', latitude: 21.4858, longitude: 39.1925, timezone: 'Asia/Riyadh', elevation: 12 },
+  { name: 'Dammam', country: 'Saudi Arabia', latitude: 26.4207, longitude: 50.0888, timezone: 'Asia/Riyadh', elevation: 10 },
+  { name: 'Dubai', country: 'United Arab Emirates', latitude: 25.2048, longitude: 55.2708, timezone: 'Asia/Dubai', elevation: 5 },
+  { name: 'Abu Dhabi', country: 'United Arab Emirates', latitude: 24.4539, longitude: 54.3773, timezone: 'Asia/Dubai', elevation: 27 },
+  { name: 'Sharjah', country: 'United Arab Emirates', latitude: 25.3463, longitude: 55.4209, timezone: 'Asia/Dubai', elevation: 5 },
+  { name: 'Doha', country: 'Qatar', latitude: 25.2854, longitude: 51.531, timezone: 'Asia/Qatar', elevation: 10 },
+  { name: 'Kuwait City', country: 'Kuwait', latitude: 29.3759, longitude: 47.9774, timezone: 'Asia/Kuwait', elevation: 15 },
+  { name: 'Manama', country: 'Bahrain', latitude: 26.2285, longitude: 50.586, timezone: 'Asia/Bahrain', elevation: 5 },
+  { name: 'Muscat', country: 'Oman', latitude: 23.588, longitude: 58.3829, timezone: 'Asia/Muscat', elevation: 15 },
+  { name: "Sana'a", country: 'Yemen', latitude: 15.3694, longitude: 44.191, timezone: 'Asia/Aden', elevation: 2250 },
+  { name: 'Amman', country: 'Jordan', latitude: 31.9454, longitude: 35.9284, timezone: 'Asia/Amman', elevation: 773 },
+  { name: 'Jerusalem', country: 'Palestine', latitude: 31.7683, longitude: 35.2137, timezone: 'Asia/Jerusalem', elevation: 754 },
+  { name: 'Gaza', country: 'Palestine', latitude: 31.5017, longitude: 34.4668, timezone: 'Asia/Gaza', elevation: 14 },
+  { name: 'Beirut', country: 'Lebanon', latitude: 33.8938, longitude: 35.5018, timezone: 'Asia/Beirut', elevation: 30 },
+  { name: 'Damascus', country: 'Syria', latitude: 33.5138, longitude: 36.2765, timezone: 'Asia/Damascus', elevation: 680 },
+  { name: 'Aleppo', country: 'Syria', latitude: 36.2021, longitude: 37.1343, timezone: 'Asia/Damascus', elevation: 379 },
+  { name: 'Baghdad', country: 'Iraq', latitude: 33.3152, longitude: 44.3661, timezone: 'Asia/Baghdad', elevation: 34 },
+  { name: 'Basra', country: 'Iraq', latitude: 30.5085, longitude: 47.7804, timezone: 'Asia/Baghdad', elevation: 5 },
+  { name: 'Erbil', country: 'Iraq', latitude: 36.1911, longitude: 44.0092, timezone: 'Asia/Baghdad', elevation: 420 },
+  { name: 'Najaf', country: 'Iraq', latitude: 32.0003, longitude: 44.3354, timezone: 'Asia/Baghdad', elevation: 60 },
+  { name: 'Tehran', country: 'Iran', latitude: 35.6892, longitude: 51.389, timezone: 'Asia/Tehran', elevation: 1189 },
+  { name: 'Mashhad', country: 'Iran', latitude: 36.2605, longitude: 59.6168, timezone: 'Asia/Tehran', elevation: 995 },
+  { name: 'Isfahan', country: 'Iran', latitude: 32.6546, longitude: 51.668, timezone: 'Asia/Tehran', elevation: 1574 },
+  { name: 'Qom', country: 'Iran', latitude: 34.6416, longitude: 50.8746, timezone: 'Asia/Tehran', elevation: 928 },
+  { name: 'Istanbul', country: 'Turkey', latitude: 41.0082, longitude: 28.9784, timezone: 'Europe/Istanbul', elevation: 39 },
+  { name: 'Ankara', country: 'Turkey', latitude: 39.9334, longitude: 32.8597, timezone: 'Europe/Istanbul', elevation: 938 },
+  { name: 'Izmir', country: 'Turkey', latitude: 38.4237, longitude: 27.1428, timezone: 'Europe/Istanbul', elevation: 2 },
+  { name: 'Konya', country: 'Turkey', latitude: 37.8746, longitude: 32.4932, timezone: 'Europe/Istanbul', elevation: 1016 },
+
+  // Africa
+  { name: 'Cairo', country: 'Egypt', latitude: 30.0444, longitude: 31.2357, timezone: 'Africa/Cairo', elevation: 23 },
+  { name: 'Alexandria', country: 'Egypt', latitude: 31.2001, longitude: 29.9187, timezone: 'Africa/Cairo', elevation: 5 },
+  { name: 'Khartoum', country: 'Sudan', latitude: 15.5007, longitude: 32.5599, timezone: 'Africa/Khartoum', elevation: 381 },
+  { name: 'Tripoli', country: 'Libya', latitude: 32.8872, longitude: 13.1913, timezone: 'Africa/Tripoli', elevation: 81 },
+  { name: 'Tunis', country: 'Tunisia', latitude: 36.8065, longitude: 10.1815, timezone: 'Africa/Tunis', elevation: 4 },
+  { name: 'Algiers', country: 'Algeria', latitude: 36.7538, longitude: 3.0588, timezone: 'Africa/Algiers', elevation: 25 },
+  { name: 'Casablanca', country: 'Morocco', latitude: 33.5731, longitude: -7.5898, timezone: 'Africa/Casablanca', elevation: 27 },
+  { name: 'Rabat', country: 'Morocco', latitude: 34.0209, longitude: -6.8416, timezone: 'Africa/Casablanca', elevation: 75 },
+  { name: 'Marrakesh', country: 'Morocco', latitude: 31.6295, longitude: -7.9811, timezone: 'Africa/Casablanca', elevation: 466 },
+  { name: 'Nouakchott', country: 'Mauritania', latitude: 18.0735, longitude: -15.9582, timezone: 'Africa/Nouakchott', elevation: 7 },
+  { name: 'Dakar', country: 'Senegal', latitude: 14.7167, longitude: -17.4677, timezone: 'Africa/Dakar', elevation: 22 },
+  { name: 'Bamako', country: 'Mali', latitude: 12.6392, longitude: -8.0029, timezone: 'Africa/Bamako', elevation: 350 },
+  { name: 'Niamey', country: 'Niger', latitude: 13.5116, longitude: 2.1254, timezone: 'Africa/Niamey', elevation: 207 },
+  { name: 'Kano', country: 'Nigeria', latitude: 12.0022, longitude: 8.592, timezone: 'Africa/Lagos', elevation: 488 },
+  { name: 'Lagos', country: 'Nigeria', latitude: 6.5244, longitude: 3.3792, timezone: 'Africa/Lagos', elevation: 41 },
+  { name: 'Abuja', country: 'Nigeria', latitude: 9.0765, longitude: 7.3986, timezone: 'Africa/Lagos', elevation: 476 },
+  { name: 'Accra', country: 'Ghana', latitude: 5.6037, longitude: -0.187, timezone: 'Africa/Accra', elevation: 61 },
+  { name: "N'Djamena", country: 'Chad', latitude: 12.1348, longitude: 15.0557, timezone: 'Africa/Ndjamena', elevation: 298 },
+  { name: 'Addis Ababa', country: 'Ethiopia', latitude: 9.03, longitude: 38.74, timezone: 'Africa/Addis_Ababa', elevation: 2355 },
+  { name: 'Djibouti', country: 'Djibouti', latitude: 11.5721, longitude: 43.1456, timezone: 'Africa/Djibouti', elevation: 14 },
+  { name: 'Mogadishu', country: 'Somalia', latitude: 2.0469, longitude: 45.3182, timezone: 'Africa/Mogadishu', elevation: 9 },
+  { name: 'Hargeisa', country: 'Somalia', latitude: 9.56, longitude: 44.065, timezone: 'Africa/Mogadishu', elevation: 1334 },
+  { name: 'Nairobi', country: 'Kenya', latitude: -1.2921, longitude: 36.8219, timezone: 'Africa/Nairobi', elevation: 1795 },
+  { name: 'Mombasa', country: 'Kenya', latitude: -4.0435, longitude: 39.6682, timezone: 'Africa/Nairobi', elevation: 50 },
+  { name: 'Dar es Salaam', country: 'Tanzania', latitude: -6.7924, longitude: 39.2083, timezone: 'Africa/Dar_es_Salaam', elevation: 14 },
+  { name: 'Zanzibar', country: 'Tanzania', latitude: -6.1659, longitude: 39.2026, timezone: 'Africa/Dar_es_Salaam', elevation: 13 },
+  { name: 'Kampala', country: 'Uganda', latitude: 0.3476, longitude: 32.5825, timezone: 'Africa/Kampala', elevation: 1190 },
+  { name: 'Johannesburg', country: 'South Africa', latitude: -26.2041, longitude: 28.0473, timezone: 'Africa/Johannesburg', elevation: 1753 },
+  { name: 'Cape Town', country: 'South Africa', latitude: -33.9249, longitude: 18.4241, timezone: 'Africa/Johannesburg', elevation: 25 },
+  { name: 'Durban', country: 'South Africa', latitude: -29.8587, longitude: 31.0218, timezone: 'Africa/Johannesburg', elevation: 8 },
+
+  // South and Central Asia
+  { name: 'Karachi', country: 'Pakistan', latitude: 24.8607, longitude: 67.0011, timezone: 'Asia/Karachi', elevation: 8 },
+  { name: 'Lahore', country: 'Pakistan', latitude: 31.5204, longitude: 74.3587, timezone: 'Asia/Karachi', elevation: 217 },
+  { name: 'Islamabad', country: 'Pakistan', latitude: 33.6844, longitude: 73.0479, timezone: 'Asia/Karachi', elevation: 540 },
+  { name: 'Peshawar', country: 'Pakistan', latitude: 34.0151, longitude: 71.5249, timezone: 'Asia/Karachi', elevation: 331 },
+  { name: 'Quetta', country: 'Pakistan', latitude: 30.1798, longitude: 66.975, timezone: 'Asia/Karachi', elevation: 1680 },
+  { name: 'Kabul', country: 'Afghanistan', latitude: 34.5553, longitude: 69.2075, timezone: 'Asia/Kabul', elevation: 1791 },
+  { name: 'Herat', country: 'Afghanistan', latitude: 34.3529, longitude: 62.204, timezone: 'Asia/Kabul', elevation: 920 },
+  { name: 'Delhi', country: 'India', latitude: 28.6139, longitude: 77.209, timezone: 'Asia/Kolkata', elevation: 216 },
+  { name: 'Mumbai', country: 'India', latitude: 19.076, longitude: 72.8777, timezone: 'Asia/Kolkata', elevation: 14 },
+  { name: 'Hyderabad', country: 'India', latitude: 17.385, longitude: 78.4867, timezone: 'Asia/Kolkata', elevation: 505 },
+  { name: 'Kolkata', country: 'India', latitude: 22.5726, longitude: 88.3639, timezone: 'Asia/Kolkata', elevation: 9 },
+  { name: 'Lucknow', country: 'India', latitude: 26.8467, longitude: 80.9462, timezone: 'Asia/Kolkata', elevation: 123 },
+  { name: 'Srinagar', country: 'India', latitude: 34.0837, longitude: 74.7973, timezone: 'Asia/Kolkata', elevation: 1585 },
+  { name: 'Bengaluru', country: 'India', latitude: 12.9716, longitude: 77.5946, timezone: 'Asia/Kolkata', elevation: 920 },
+  { name: 'Chennai', country: 'India', latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata', elevation: 6 },
+  { name: 'Dhaka', country: 'Bangladesh', latitude: 23.8103, longitude: 90.4125, timezone: 'Asia/Dhaka', elevation: 4 },
+  { name: 'Chittagong', country: 'Bangladesh', latitude: 22.3569, longitude: 91.7832, timezone: 'Asia/Dhaka', elevation: 29 },
+  { name: 'Colombo', country: 'Sri Lanka', latitude: 6.9271, longitude: 79.8612, timezone: 'Asia/Colombo', elevation: 1 },
+  { name: 'Malé', country: 'Maldives', latitude: 4.1755, longitude: 73.5093, timezone: 'Indian/Maldives', elevation: 2 },
+  { name: 'Tashkent', country: 'Uzbekistan', latitude: 41.2995, longitude: 69.2401, timezone: 'Asia/Tashkent', elevation: 455 },
+  { name: 'Samarkand', country: 'Uzbekistan', latitude: 39.627, longitude: 66.975, timezone: 'Asia/Samarkand', elevation: 702 },
+  { name: 'Almaty', country: 'Kazakhstan', latitude: 43.222, longitude: 76.8512, timezone: 'Asia/Almaty', elevation: 800 },
+  { name: 'Astana', country: 'Kazakhstan', latitude: 51.1694, longitude: 71.4491, timezone: 'Asia/Almaty', elevation: 347 },
+  { name: 'Bishkek', country: 'Kyrgyzstan', latitude: 42.8746, longitude: 74.5698, timezone: 'Asia/Bishkek', elevation: 800 },
+  { name: 'Dushanbe', country: 'Tajikistan', latitude: 38.5598, longitude: 68.787, timezone: 'Asia/Dushanbe', elevation: 800 },
+  { name: 'Ashgabat', country: 'Turkmenistan', latitude: 37.9601, longitude: 58.3261, timezone: 'Asia/Ashgabat', elevation: 219 },
+  { name: 'Baku', country: 'Azerbaijan', latitude: 40.4093, longitude: 49.8671, timezone: 'Asia/Baku', elevation: -28 },
+
+  // East and Southeast Asia
+  { name: 'Jakarta', country: 'Indonesia', latitude: -6.2088, longitude: 106.8456, timezone: 'Asia/Jakarta', elevation: 8 },
+  { name: 'Surabaya', country: 'Indonesia', latitude: -7.2575, longitude: 112.7521, timezone: 'Asia/Jakarta', elevation: 5 },
+  { name: 'Bandung', country: 'Indonesia', latitude: -6.9175, longitude: 107.6191, timezone: 'Asia/Jakarta', elevation: 768 },
+  { name: 'Medan', country: 'Indonesia', latitude: 3.5952, longitude: 98.6722, timezone: 'Asia/Jakarta', elevation: 26 },
+  { name: 'Banda Aceh', country: 'Indonesia', latitude: 5.5483, longitude: 95.3238, timezone: 'Asia/Jakarta', elevation: 10 },
+  { name: 'Makassar', country: 'Indonesia', latitude: -5.1477, longitude: 119.4327, timezone: 'Asia/Makassar', elevation: 10 },
+  { name: 'Kuala Lumpur', country: 'Malaysia', latitude: 3.139, longitude: 101.6869, timezone: 'Asia/Kuala_Lumpur', elevation: 56 },
+  { name: 'Penang', country: 'Malaysia', latitude: 5.4141, longitude: 100.3288, timezone: 'Asia/Kuala_Lumpur', elevation: 5 },
+  { name: 'Kota Kinabalu', country: 'Malaysia', latitude: 5.9804, longitude: 116.0735, timezone: 'Asia/Kuching', elevation: 5 },
+  { name: 'Singapore', country: 'Singapore', latitude: 1.3521, longitude: 103.8198, timezone: 'Asia/Singapore', elevation: 15 },
+  { name: 'Bandar Seri Begawan', country: 'Brunei', latitude: 4.9031, longitude: 114.9398, timezone: 'Asia/Brunei', elevation: 10 },
+  { name: 'Bangkok', country: 'Thailand', latitude: 13.7563, longitude: 100.5018, timezone: 'Asia/Bangkok', elevation: 2 },
+  { name: 'Manila', country: 'Philippines', latitude: 14.5995, longitude: 120.9842, timezone: 'Asia/Manila', elevation: 7 },
+  { name: 'Cotabato City', country: 'Philippines', latitude: 7.2236, longitude: 124.2464, timezone: 'Asia/Manila', elevation: 5 },
+  { name: 'Beijing', country: 'China', latitude: 39.9042, longitude: 116.4074, timezone: 'Asia/Shanghai', elevation: 44 },
+  { name: 'Shanghai', country: 'China', latitude: 31.2304, longitude: 121.4737, timezone: 'Asia/Shanghai', elevation: 4 },
+  { name: 'Ürümqi', country: 'China', latitude: 43.8256, longitude: 87.6168, timezone: 'Asia/Urumqi', elevation: 800 },
+  { name: 'Hong Kong', country: 'China', latitude: 22.3193, longitude: 114.1694, timezone: 'Asia/Hong_Kong', elevation: 10 },
+  { name: 'Tokyo', country: 'Japan', latitude: 35.6762, longitude: 139.6503, timezone: 'Asia/Tokyo', elevation: 40 },
+  { name: 'Seoul', country: 'South Korea', latitude: 37.5665, longitude: 126.978, timezone: 'Asia/Seoul', elevation: 38 },
+
+  // Europe
+  { name: 'London', country: 'United Kingdom', latitude: 51.5074, longitude: -0.1278, timezone: 'Europe/London', elevation: 11 },
+  { name: 'Birmingham', country: 'United Kingdom', latitude: 52.4862, longitude: -1.8904, timezone: 'Europe/London', elevation: 140 },
+  { name: 'Manchester', country: 'United Kingdom', latitude: 53.4808, longitude: -2.2426, timezone: 'Europe/London', elevation: 38 },
+  { name: 'Bradford', country: 'United Kingdom', latitude: 53.796, longitude: -1.7594, timezone: 'Europe/London', elevation: 150 },
+  { name: 'Glasgow', country: 'United Kingdom', latitude: 55.8642, longitude: -4.2518, timezone: 'Europe/London', elevation: 40 },
+  { name: 'Dublin', country: 'Ireland', latitude: 53.3498, longitude: -6.2603, timezone: 'Europe/Dublin', elevation: 20 },
+  { name: 'Paris', country: 'France', latitude: 48.8566, longitude: 2.3522, timezone: 'Europe/Paris', elevation: 35 },
+  { name: 'Marseille', country: 'France', latitude: 43.2965, longitude: 5.3698, timezone: 'Europe/Paris', elevation: 12 },
+  { name: 'Lyon', country: 'France', latitude: 45.764, longitude: 4.8357, timezone: 'Europe/Paris', elevation: 173 },
+  { name: 'Brussels', country: 'Belgium', latitude: 50.8503, longitude: 4.3517, timezone: 'Europe/Brussels', elevation: 13 },
+  { name: 'Amsterdam', country: 'Netherlands', latitude: 52.3676, longitude: 4.9041, timezone: 'Europe/Amsterdam', elevation: -2 },
+  { name: 'Rotterdam', country: 'Netherlands', latitude: 51.9244, longitude: 4.4777, timezone: 'Europe/Amsterdam', elevation: 0 },
+  { name: 'Berlin', country: 'Germany', latitude: 52.52, longitude: 13.405, timezone: 'Europe/Berlin', elevation: 34 },
+  { name: 'Hamburg', country: 'Germany', latitude: 53.5511, longitude: 9.9937, timezone: 'Europe/Berlin', elevation: 6 },
+  { name: 'Cologne', country: 'Germany', latitude: 50.9375, longitude: 6.9603, timezone: 'Europe/Berlin', elevation: 53 },
+  { name: 'Frankfurt', country: 'Germany', latitude: 50.1109, longitude: 8.6821, timezone: 'Europe/Berlin', elevation: 112 },
+  { name: 'Munich', country: 'Germany', latitude: 48.1351, longitude: 11.582, timezone: 'Europe/Berlin', elevation: 519 },
+  { name: 'Vienna', country: 'Austria', latitude: 48.2082, longitude: 16.3738, timezone: 'Europe/Vienna', elevation: 190 },
+  { name: 'Zurich', country: 'Switzerland', latitude: 47.3769, longitude: 8.5417, timezone: 'Europe/Zurich', elevation: 408 },
+  { name: 'Madrid', country: 'Spain', latitude: 40.4168, longitude: -3.7038, timezone: 'Europe/Madrid', elevation: 667 },
+  { name: 'Barcelona', country: 'Spain', latitude: 41.3874, longitude: 2.1686, timezone: 'Europe/Madrid', elevation: 12 },
+  { name: 'Granada', country: 'Spain', latitude: 37.1773, longitude: -3.5986, timezone: 'Europe/Madrid', elevation: 738 },
+  { name: 'Lisbon', country: 'Portugal', latitude: 38.7223, longitude: -9.1393, timezone: 'Europe/Lisbon', elevation: 2 },
+  { name: 'Rome', country: 'Italy', latitude: 41.9028, longitude: 12.4964, timezone: 'Europe/Rome', elevation: 21 },
+  { name: 'Milan', country: 'Italy', latitude: 45.4642, longitude: 9.19, timezone: 'Europe/Rome', elevation: 120 },
+  { name: 'Athens', country: 'Greece', latitude: 37.9838, longitude: 23.7275, timezone: 'Europe/Athens', elevation: 70 },
+  { name: 'Sarajevo', country: 'Bosnia and Herzegovina', latitude: 43.8563, longitude: 18.4131, timezone: 'Europe/Sarajevo', elevation: 518 },
+  { name: 'Tirana', country: 'Albania', latitude: 41.3275, longitude: 19.8187, timezone: 'Europe/Tirane', elevation: 110 },
+  { name: 'Pristina', country: 'Kosovo', latitude: 42.6629, longitude: 21.1655, timezone: 'Europe/Belgrade', elevation: 652 },
+  { name: 'Skopje', country: 'North Macedonia', latitude: 41.9981, longitude: 21.4254, timezone: 'Europe/Skopje', elevation: 240 },
+  { name: 'Sofia', country: 'Bulgaria', latitude: 42.6977, longitude: 23.3219, timezone: 'Europe/Sofia', elevation: 550 },
+  { name: 'Bucharest', country: 'Romania', latitude: 44.4268, longitude: 26.1025, timezone: 'Europe/Bucharest', elevation: 70 },
+  { name: 'Warsaw', country: 'Poland', latitude: 52.2297, longitude: 21.0122, timezone: 'Europe/Warsaw', elevation: 100 },
+  { name: 'Copenhagen', country: 'Denmark', latitude: 55.6761, longitude: 12.5683, timezone: 'Europe/Copenhagen', elevation: 14 },
+  { name: 'Oslo', country: 'Norway', latitude: 59.9139, longitude: 10.7522, timezone: 'Europe/Oslo', elevation: 23 },
+  { name: 'Bergen', country: 'Norway', latitude: 60.3913, longitude: 5.3221, timezone: 'Europe/Oslo', elevation: 12 },
+  { name: 'Tromsø', country: 'Norway', latitude: 69.6492, longitude: 18.9553, timezone: 'Europe/Oslo', elevation: 10 },
+  { name: 'Stockholm', country: 'Sweden', latitude: 59.3293, longitude: 18.0686, timezone: 'Europe/Stockholm', elevation: 28 },
+  { name: 'Gothenburg', country: 'Sweden', latitude: 57.7089, longitude: 11.9746, timezone: 'Europe/Stockholm', elevation: 12 },
+  { name: 'Malmö', country: 'Sweden', latitude: 55.605, longitude: 13.0038, timezone: 'Europe/Stockholm', elevation: 12 },
+  { name: 'Helsinki', country: 'Finland', latitude: 60.1699, longitude: 24.9384, timezone: 'Europe/Helsinki', elevation: 17 },
+  { name: 'Reykjavik', country: 'Iceland', latitude: 64.1466, longitude: -21.9426, timezone: 'Atlantic/Reykjavik', elevation: 20 },
+  { name: 'Moscow', country: 'Russia', latitude: 55.7558, longitude: 37.6173, timezone: 'Europe/Moscow', elevation: 156 },
+  { name: 'Kazan', country: 'Russia', latitude: 55.7963, longitude: 49.1088, timezone: 'Europe/Moscow', elevation: 116 },
+  { name: 'Grozny', country: 'Russia', latitude: 43.3178, longitude: 45.6949, timezone: 'Europe/Moscow', elevation: 130 },
+  { name: 'Makhachkala', country: 'Russia', latitude: 42.9849, longitude: 47.5047, timezone: 'Europe/Moscow', elevation: 0 },
+  { name: 'Ufa', country: 'Russia', latitude: 54.7388, longitude: 55.9721, timezone: 'Asia/Yekaterinburg', elevation: 150 },
+
+  // Americas
+  { name: 'New York', country: 'United States', latitude: 40.7128, longitude: -74.006, timezone: 'America/New_York', elevation: 10 },
+  { name: 'Washington, D.C.', country: 'United States', latitude: 38.9072, longitude: -77.0369, timezone: 'America/New_York', elevation: 22 },
+  { name: 'Philadelphia', country: 'United States', latitude: 39.9526, longitude: -75.1652, timezone: 'America/New_York', elevation: 12 },
+  { name: 'Atlanta', country: 'United States', latitude: 33.749, longitude: -84.388, timezone: 'America/New_York', elevation: 320 },
+  { name: 'Detroit', country: 'United States', latitude: 42.3314, longitude: -83.0458, timezone: 'America/Detroit', elevation: 183 },
+  { name: 'Dearborn', country: 'United States', latitude: 42.3223, longitude: -83.1763, timezone: 'America/Detroit', elevation: 180 },
+  { name: 'Chicago', country: 'United States', latitude: 41.8781, longitude: -87.6298, timezone: 'America/Chicago', elevation: 181 },
+  { name: 'Minneapolis', country: 'United States', latitude: 44.9778, longitude: -93.265, timezone: 'America/Chicago', elevation: 264 },
+  { name: 'Houston', country: 'United States', latitude: 29.7604, longitude: -95.3698, timezone: 'America/Chicago', elevation: 15 },
+  { name: 'Dallas', country: 'United States', latitude: 32.7767, longitude: -96.797, timezone: 'America/Chicago', elevation: 131 },
+  { name: 'Denver', country: 'United States', latitude: 39.7392, longitude: -104.9903, timezone: 'America/Denver', elevation: 1609 },
+  { name: 'Phoenix', country: 'United States', latitude: 33.4484, longitude: -112.074, timezone: 'America/Phoenix', elevation: 331 },
+  { name: 'Los Angeles', country: 'United States', latitude: 34.0522, longitude: -118.2437, timezone: 'America/Los_Angeles', elevation: 71 },
+  { name: 'San Francisco', country: 'United States', latitude: 37.7749, longitude: -122.4194, timezone: 'America/Los_Angeles', elevation: 16 },
+  { name: 'Seattle', country: 'United States', latitude: 47.6062, longitude: -122.3321, timezone: 'America/Los_Angeles', elevation: 53 },
+  { name: 'Anchorage', country: 'United States', latitude: 61.2181, longitude: -149.9003, timezone: 'America/Anchorage', elevation: 31 },
+  { name: 'Toronto', country: 'Canada', latitude: 43.6532, longitude: -79.3832, timezone: 'America/Toronto', elevation: 76 },
+  { name: 'Mississauga', country: 'Canada', latitude: 43.589, longitude: -79.6441, timezone: 'America/Toronto', elevation: 156 },
+  { name: 'Ottawa', country: 'Canada', latitude: 45.4215, longitude: -75.6972, timezone: 'America/Toronto', elevation: 70 },
+  { name: 'Montreal', country: 'Canada', latitude: 45.5017, longitude: -73.5673, timezone: 'America/Toronto', elevation: 36 },
+  { name: 'Calgary', country: 'Canada', latitude: 51.0447, longitude: -114.0719, timezone: 'America/Edmonton', elevation: 1045 },
+  { name: 'Edmonton', country: 'Canada', latitude: 53.5461, longitude: -113.4938, timezone: 'America/Edmonton', elevation: 645 },
+  { name: 'Vancouver', country: 'Canada', latitude: 49.2827, longitude: -123.1207, timezone: 'America/Vancouver', elevation: 70 },
+  { name: 'Mexico City', country: 'Mexico', latitude: 19.4326, longitude: -99.1332, timezone: 'America/Mexico_City', elevation: 2240 },
+  { name: 'São Paulo', country: 'Brazil', latitude: -23.5505, longitude: -46.6333, timezone: 'America/Sao_Paulo', elevation: 760 },
+  { name: 'Buenos Aires', country: 'Argentina', latitude: -34.6037, longitude: -58.3816, timezone: 'America/Argentina/Buenos_Aires', elevation: 25 },
+  { name: 'Paramaribo', country: 'Suriname', latitude: 5.852, longitude: -55.2038, timezone: 'America/Paramaribo', elevation: 3 },
+  { name: 'Port of Spain', country: 'Trinidad and Tobago', latitude: 10.6603, longitude: -61.5086, timezone: 'America/Port_of_Spain', elevation: 10 },
+
+  // Oceania
+  { name: 'Sydney', country: 'Australia', latitude: -33.8688, longitude: 151.2093, timezone: 'Australia/Sydney', elevation: 58 },
+  { name: 'Melbourne', country: 'Australia', latitude: -37.8136, longitude: 144.9631, timezone: 'Australia/Melbourne', elevation: 31 },
+  { name: 'Brisbane', country: 'Australia', latitude: -27.4698, longitude: 153.0251, timezone: 'Australia/Brisbane', elevation: 27 },
+  { name: 'Perth', country: 'Australia', latitude: -31.9505, longitude: 115.8605, timezone: 'Australia/Perth', elevation: 31 },
+  { name: 'Auckland', country: 'New Zealand', latitude: -36.8485, longitude: 174.7633, timezone: 'Pacific/Auckland', elevation: 26 }
+]
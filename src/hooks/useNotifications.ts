@@ -1,133 +1,247 @@
 import { useEffect, useRef } from 'react'
-import { PrayerReminder } from './usePrayerData'
+import { FollowUpStep, Prayer, PrayerLocation, PrayerReminder } from '../types/prayer'
 import { toast } from 'sonner'
-
-export const useNotifications = (reminders: PrayerReminder[], enabled: boolean = true) => {
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const notifiedToday = useRef<Set<string>>(new Set())
+import { CalculationParams } from '../lib/calculationMethods'
+import { ScheduledReminder, getLoggedPrayerKeys, getRemindersBetween, isReminderResolved } from '../lib/reminders'
+import { getDateKey } from '../lib/timezone'
+import { ClientMessage, TIMER_PARAM, getReminderIntensity, getReminderNotification } from '../lib/notificationSchedule'
+import { AudioPolicy, getReminderSound, isRecording } from '../lib/reminderSounds'
+import { NotificationService } from '../services/notificationService'
+import { AudioService, Playback } from '../services/audioService'
+import { PrayerService } from '../services/prayerService'
+import { SyncQueue } from '../services/syncQueue'
+
+// Longest the page sleeps between wake-ups, so a changed clock or timezone is picked up
+const MAX_WAKE_DELAY_MS = 60 * 60 * 1000
+
+// A pull the service worker asks for is answered at most this often, so a pull that
+// fails (e.g. offline) doesn't bounce between the two
+const MIN_PULL_INTERVAL_MS = 60 * 1000
+
+// Without a service worker the page shows the system notification itself, while it is alive
+const showPageNotification = (scheduled: ScheduledReminder) => {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    const { title, options } = getReminderNotification(scheduled)
+    new Notification(title, options)
+  }
+}
+
+const showReminderToast = (scheduled: ScheduledReminder, audio: AudioPolicy) => {
+  const { title, options } = getReminderNotification(scheduled)
+  const intensity = getReminderIntensity(scheduled.followUp)
+  const sound = getReminderSound(scheduled, audio)
+
+  // A toast with a recording stays up while it plays, so it can be stopped;
+  // urgent follow-ups stay up until dismissed
+  let playback: Playback | null = null
+  const toastId = toast(`🕌 ${title}`, {
+    description: options.body,
+    duration: intensity.requireInteraction || isRecording(sound) ? Infinity : 10000,
+    action: isRecording(sound)
+      ? { label: 'Stop', onClick: () => playback?.stop() }
+      : { label: 'Dismiss', onClick: () => {} },
+    onDismiss: () => playback?.stop()
+  })
+  playback = AudioService.play(sound, {
+    volume: audio.volume,
+    fadeInSeconds: audio.fadeInSeconds,
+    beeps: intensity.beeps,
+    onEnded: () => {
+      if (isRecording(sound) && !intensity.requireInteraction) toast.dismiss(toastId)
+    }
+  })
+}
+
+interface NotificationInputs {
+  reminders: PrayerReminder[]
+  location: PrayerLocation
+  params: CalculationParams
+  followUpSteps: FollowUpStep[]
+  prayers: Prayer[] // Logged prayers; a follow-up is only sent for a prayer not among them
+  audio: AudioPolicy // What the page plays with its toast; the system notification keeps the device's sound
+}
+
+interface NotificationActionHandlers {
+  onPrayerLogged?: (prayerName: string) => void // "Prayed now" was chosen on a notification
+  onOpenTimer?: (prayerName: string) => void // "Open timer" was chosen on a notification
+}
+
+/**
+ * Keeps the service worker's reminder schedule current and wakes it at each
+ * reminder while the page is open, which covers browsers with neither
+ * Notification Triggers nor periodic sync. The page adds a toast when visible.
+ */
+export const useNotifications = (
+  { reminders, location, params, followUpSteps, prayers, audio }: NotificationInputs,
+  handlers: NotificationActionHandlers = {},
+  enabled: boolean = true
+) => {
+  // The latest handlers, prayers and sounds, so listeners registered once always see the current ones
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+  const prayersRef = useRef(prayers)
+  prayersRef.current = prayers
+  const audioRef = useRef(audio)
+  audioRef.current = audio
 
   useEffect(() => {
-    if (!enabled || reminders.length === 0) return
+    if (!enabled) return
 
     // Request notification permission
     if ('Notification' in window && Notification.permission === 'default') {
       Notification.requestPermission()
     }
+    NotificationService.register()
+  }, [enabled])
 
-    // Check reminders every minute
-    intervalRef.current = setInterval(() => {
-      checkReminders()
-    }, 60000) // Check every minute
-
-    // Initial check
-    checkReminders()
+  // Actions chosen on a notification while this page is open
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+    const wakeTimeouts = new Set<ReturnType<typeof setTimeout>>()
+    let lastPull = 0
+
+    const handleMessage = (event: MessageEvent<ClientMessage>) => {
+      const message = event.data
+      switch (message.type) {
+        case 'prayer-logged':
+          // Written to the outbox by the service worker; push it now rather than on the next visit
+          SyncQueue.flush()
+          handlersRef.current.onPrayerLogged?.(message.prayer_name)
+          break
+        case 'open-timer':
+          handlersRef.current.onOpenTimer?.(message.prayer_name)
+          break
+        case 'pull':
+          if (Date.now() - lastPull < MIN_PULL_INTERVAL_MS) break
+          lastPull = Date.now()
+          PrayerService.refresh()
+            .then(() => NotificationService.checkDueReminders())
+            .catch(error => console.error('Failed to pull prayers for follow-ups:', error))
+          break
+        case 'wake': {
+          const timeout = setTimeout(() => {
+            wakeTimeouts.delete(timeout)
+            NotificationService.checkDueReminders()
+          }, Math.max(0, new Date(message.at).getTime() - Date.now()))
+          wakeTimeouts.add(timeout)
+          break
+        }
+      }
+    }
 
+    navigator.serviceWorker.addEventListener('message', handleMessage)
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      navigator.serviceWorker.removeEventListener('message', handleMessage)
+      wakeTimeouts.forEach(timeout => clearTimeout(timeout))
     }
-  }, [reminders, enabled]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [])
 
-  // Reset notifications at midnight
+  // Opened from a notification's "Open timer" with no window left, e.g. "/?timer=Asr"
   useEffect(() => {
-    const now = new Date()
-    const tomorrow = new Date(now)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    tomorrow.setHours(0, 0, 0, 0)
-    
-    const msUntilMidnight = tomorrow.getTime() - now.getTime()
-    
-    const resetTimeout = setTimeout(() => {
-      notifiedToday.current.clear()
-      
-      // Set up daily reset
-      const dailyReset = setInterval(() => {
-        notifiedToday.current.clear()
-      }, 24 * 60 * 60 * 1000)
-
-      return () => clearInterval(dailyReset)
-    }, msUntilMidnight)
-
-    return () => clearTimeout(resetTimeout)
+    const url = new URL(window.location.href)
+    const prayerName = url.searchParams.get(TIMER_PARAM)
+    if (!prayerName) return
+
+    url.searchParams.delete(TIMER_PARAM)
+    window.history.replaceState(null, '', url.toString())
+    handlersRef.current.onOpenTimer?.(prayerName)
   }, [])
 
-  const checkReminders = () => {
-    const now = new Date()
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-    
-    reminders.forEach(reminder => {
-      if (!reminder.isEnabled) return
-      
-      const reminderKey = `${reminder.prayerName}_${currentTime}`
-      
-      if (reminder.reminderTime === currentTime && !notifiedToday.current.has(reminderKey)) {
-        showNotification(reminder)
-        notifiedToday.current.add(reminderKey)
-      }
+  useEffect(() => {
+    if (!enabled) return
+    NotificationService.syncSchedule({
+      reminders,
+      location,
+      params,
+      follow_up_steps: followUpSteps,
+      updated_at: new Date().toISOString()
     })
-  }
+  }, [reminders, location, params, followUpSteps, enabled])
 
-  const showNotification = (reminder: PrayerReminder) => {
-    // Browser notification
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification(`Time for ${reminder.prayerName} Prayer`, {
-        body: `It's time for your ${reminder.prayerName} prayer. May Allah accept your worship.`,
-        icon: '/favicon.svg',
-        tag: reminder.prayerName,
-        requireInteraction: false
+  // A prayer logged or loaded here withdraws the service worker's follow-ups for it
+  useEffect(() => {
+    if (!enabled) return
+    NotificationService.notifyPrayersChanged()
+  }, [prayers, enabled])
+
+  useEffect(() => {
+    if (!enabled || reminders.length === 0) return
+
+    let since = new Date()
+    let timeout: ReturnType<typeof setTimeout>
+
+    // One timer aimed at the next reminder; browsers throttle repeating timers in background tabs
+    const arm = () => {
+      const now = new Date()
+      const until = new Date(now.getTime() + MAX_WAKE_DELAY_MS)
+      const next = getRemindersBetween(reminders, now, until, location, params, followUpSteps)[0]
+      timeout = setTimeout(wake, next ? next.at.getTime() - now.getTime() : MAX_WAKE_DELAY_MS)
+    }
+
+    const wake = async () => {
+      const now = new Date()
+      const due = getRemindersBetween(reminders, since, now, location, params, followUpSteps)
+      since = now
+      arm()
+      if (due.length === 0) return
+
+      // Another device may have logged the prayer since this page loaded; pulling also
+      // refreshes the local store the service worker checks
+      const prayers = due.some(scheduled => scheduled.followUp)
+        ? await PrayerService.refresh().then(() => PrayerService.getAllPrayers()).catch(() => prayersRef.current)
+        : prayersRef.current
+      const logged = getLoggedPrayerKeys(prayers)
+      const pending = due.filter(scheduled => !isReminderResolved(scheduled, logged))
+      if (pending.length === 0) return
+
+      const delivered = await NotificationService.checkDueReminders()
+      pending.forEach(scheduled => {
+        if (!delivered) showPageNotification(scheduled)
+        if (document.visibilityState === 'visible') showReminderToast(scheduled, audioRef.current)
       })
     }
 
-    // Toast notification as fallback
-    toast(`🕌 Time for ${reminder.prayerName} Prayer`, {
-      description: `It's time for your ${reminder.prayerName} prayer. May Allah accept your worship.`,
-      duration: 10000,
-      action: {
-        label: 'Dismiss',
-        onClick: () => {}
-      }
-    })
+    // Timers stall while the device sleeps; catch up as soon as the page is shown again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return
+      clearTimeout(timeout)
+      wake()
+    }
 
-    // Play notification sound (optional)
-    playNotificationSound()
-  }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    arm()
 
-  const playNotificationSound = () => {
-    try {
-      // Create a simple notification sound using Web Audio API
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-      const oscillator = audioContext.createOscillator()
-      const gainNode = audioContext.createGain()
-      
-      oscillator.connect(gainNode)
-      gainNode.connect(audioContext.destination)
-      
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime)
-      oscillator.frequency.setValueAtTime(600, audioContext.currentTime + 0.1)
-      
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime)
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5)
-      
-      oscillator.start(audioContext.currentTime)
-      oscillator.stop(audioContext.currentTime + 0.5)
-    } catch (error) {
-      console.log('Could not play notification sound:', error)
+    return () => {
+      clearTimeout(timeout)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
     }
-  }
+  }, [reminders, location, params, followUpSteps, enabled])
 
-  const testNotification = (prayerName: string) => {
-    const testReminder: PrayerReminder = {
-      id: 'test',
-      userId: 'test',
-      prayerName,
-      reminderTime: '',
-      isEnabled: true
+  const testNotification = async (prayerName: string) => {
+    const now = new Date()
+    const testReminder: ScheduledReminder = {
+      reminder: {
+        id: 'test',
+        user_id: 'test',
+        prayer_name: prayerName,
+        anchor: 'adhan',
+        offset_minutes: 0,
+        reminder_time: '',
+        is_enabled: "1",
+        days_of_week: "1,2,3,4,5,6,7",
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      },
+      date: getDateKey(now, location.timezone),
+      at: now
+    }
+    if (!await NotificationService.showTestNotification(prayerName)) {
+      showPageNotification(testReminder)
     }
-    showNotification(testReminder)
+    showReminderToast(testReminder, audio)
   }
 
   return {
     testNotification
   }
-}
\ No newline at end of file
+}
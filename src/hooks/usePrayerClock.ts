@@ -0,0 +1,25 @@
+import { useState, useEffect, useMemo } from 'react'
+import { PrayerLocation } from '../types/prayer'
+import { CalculationParams } from '../lib/calculationMethods'
+import { getPrayerClock } from '../lib/prayerWindows'
+
+// Re-evaluates the current prayer window every `tickMs`, and always right at
+// the next adhan or window end so transitions never lag behind.
+export const usePrayerClock = (location: PrayerLocation, params: CalculationParams, tickMs: number = 1000) => {
+  const [now, setNow] = useState(() => new Date())
+
+  const clock = useMemo(() => getPrayerClock(now, location, params), [now, location, params])
+
+  useEffect(() => {
+    const nextEvent = Math.min(
+      clock.next.time.getTime(),
+      clock.current ? clock.current.end.getTime() : Infinity
+    )
+    const delay = Math.max(250, Math.min(tickMs, nextEvent - Date.now()))
+    const timeout = setTimeout(() => setNow(new Date()), delay)
+
+    return () => clearTimeout(timeout)
+  }, [clock, tickMs])
+
+  return { now, ...clock }
+}
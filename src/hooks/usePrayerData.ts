@@ -1,112 +1,98 @@
-import { useState, useEffect } from 'react'
-import { blink } from '../blink/client'
+import { useState, useEffect, useCallback } from 'react'
 import { toast } from 'sonner'
-
-export interface PrayerLog {
-  id: string
-  userId: string
-  prayerName: string
-  loggedAt: string
-  durationMinutes?: number
-  notes?: string
-  createdAt: string
-}
-
-export interface PrayerReminder {
-  id: string
-  userId: string
-  prayerName: string
-  reminderTime: string
-  isEnabled: boolean
-}
-
-export interface PrayerStreak {
-  currentStreak: number
-  longestStreak: number
-  lastPrayerDate: string
-}
+import { format, parseISO } from 'date-fns'
+import { Prayer, PrayerConflict, PrayerConsistency, PrayerReminder, PrayerStatus, PrayerStreak } from '../types/prayer'
+import { PrayerService } from '../services/prayerService'
+import { MigrationService } from '../services/migrationService'
+import { ConflictService } from '../services/conflictService'
+import { PRAYER_STATUSES, isPrayerPerformed } from '../lib/prayerStatus'
+import { compareReminders } from '../lib/reminders'
+import { countRangeDays, getStatsRange } from '../lib/chartStats'
+import { getDateKey, shiftDateKey } from '../lib/timezone'
 
 export const usePrayerData = (userId: string) => {
-  const [prayerLogs, setPrayerLogs] = useState<PrayerLog[]>([])
+  const [prayers, setPrayers] = useState<Prayer[]>([])
+  const [todaysPrayers, setTodaysPrayers] = useState<Prayer[]>([])
   const [reminders, setReminders] = useState<PrayerReminder[]>([])
-  const [streak, setStreak] = useState<PrayerStreak>({
-    currentStreak: 0,
-    longestStreak: 0,
-    lastPrayerDate: ''
-  })
+  const [streak, setStreak] = useState<PrayerStreak | null>(null)
+  const [conflicts, setConflicts] = useState<PrayerConflict[]>([])
+  const [prayerStreaks, setPrayerStreaks] = useState<PrayerConsistency[]>([])
   const [loading, setLoading] = useState(true)
 
-  // Load data on mount
-  useEffect(() => {
-    if (userId) {
-      loadPrayerData()
-    }
-  }, [userId]) // eslint-disable-line react-hooks/exhaustive-deps
-
-  const loadPrayerData = async () => {
+  const loadPrayerData = useCallback(async () => {
     try {
-      setLoading(true)
-      
-      // Load from localStorage as fallback (since database creation failed)
-      const storedLogs = localStorage.getItem(`prayer_logs_${userId}`)
-      const storedReminders = localStorage.getItem(`prayer_reminders_${userId}`)
-      const storedStreak = localStorage.getItem(`prayer_streak_${userId}`)
-
-      if (storedLogs) {
-        setPrayerLogs(JSON.parse(storedLogs))
-      }
-      
-      if (storedReminders) {
-        setReminders(JSON.parse(storedReminders))
-      } else {
-        // Set default reminders
-        const defaultReminders: PrayerReminder[] = [
-          { id: '1', userId, prayerName: 'Fajr', reminderTime: '05:30', isEnabled: true },
-          { id: '2', userId, prayerName: 'Dhuhr', reminderTime: '12:30', isEnabled: true },
-          { id: '3', userId, prayerName: 'Asr', reminderTime: '15:30', isEnabled: true },
-          { id: '4', userId, prayerName: 'Maghrib', reminderTime: '18:30', isEnabled: true },
-          { id: '5', userId, prayerName: 'Isha', reminderTime: '20:00', isEnabled: true }
-        ]
-        setReminders(defaultReminders)
-        localStorage.setItem(`prayer_reminders_${userId}`, JSON.stringify(defaultReminders))
-      }
+      // Bring data from older storage layouts into the repository first; new users get default reminders there
+      await MigrationService.migrateLegacyStorage()
 
-      if (storedStreak) {
-        setStreak(JSON.parse(storedStreak))
-      }
+      const [allPrayers, todaysData, storedReminders, streakData, prayerStreakData, openConflicts] = await Promise.all([
+        PrayerService.getAllPrayers(),
+        PrayerService.getTodaysPrayers(),
+        PrayerService.getUserReminders(),
+        PrayerService.getStreak(),
+        PrayerService.getPrayerStreaks(),
+        ConflictService.getOpenConflicts()
+      ])
 
+      setPrayers(allPrayers)
+      setTodaysPrayers(todaysData)
+      setStreak(streakData)
+      setPrayerStreaks(prayerStreakData)
+      setConflicts(openConflicts)
+      setReminders(storedReminders)
     } catch (error) {
       console.error('Error loading prayer data:', error)
       toast.error('Failed to load prayer data')
     } finally {
       setLoading(false)
     }
-  }
+  }, [])
 
-  const logPrayer = async (prayerName: string, durationMinutes?: number, notes?: string) => {
-    try {
-      const newLog: PrayerLog = {
-        id: `prayer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId,
-        prayerName,
-        loggedAt: new Date().toISOString(),
-        durationMinutes,
-        notes: notes || '',
-        createdAt: new Date().toISOString()
-      }
+  // Load data on mount, once duplicates from other devices have been pulled and merged
+  useEffect(() => {
+    if (userId) {
+      PrayerService.refresh()
+        .catch(error => console.error('Error refreshing prayer data:', error))
+        .finally(loadPrayerData)
+    }
+  }, [userId, loadPrayerData])
 
-      const updatedLogs = [newLog, ...prayerLogs]
-      setPrayerLogs(updatedLogs)
-      localStorage.setItem(`prayer_logs_${userId}`, JSON.stringify(updatedLogs))
+  // Other devices' changes are pulled when the app comes back online or into view
+  useEffect(() => {
+    if (!userId) return
 
-      // Update streak
-      await updateStreak(prayerName)
+    const refresh = async () => {
+      await PrayerService.refresh()
+      await loadPrayerData()
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refresh()
+    }
 
-      toast.success(`${prayerName} prayer logged successfully! 🤲`, {
-        description: 'May your prayers be accepted.'
-      })
+    window.addEventListener('online', refresh)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      window.removeEventListener('online', refresh)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [userId, loadPrayerData])
+
+  // `performedAt` backdates the log, e.g. to fill in a prayer forgotten yesterday
+  const logPrayer = async (prayerName: string, status?: PrayerStatus, performedAt?: Date) => {
+    try {
+      const prayer = await PrayerService.logPrayer(prayerName, performedAt, undefined, status)
+      await loadPrayerData()
+
+      const undo = { label: 'Undo', onClick: () => undoLogPrayer(prayer) }
+      if (prayer.status === 'excused' || prayer.status === 'missed') {
+        toast.success(`${prayerName} marked as ${PRAYER_STATUSES[prayer.status].label.toLowerCase()}`, { action: undo })
+      } else {
+        toast.success(`${prayerName} prayer logged successfully! 🤲`, {
+          description: `Logged as ${PRAYER_STATUSES[prayer.status].label.toLowerCase()}. May your prayers be accepted.`,
+          action: undo
+        })
+      }
 
-      return newLog
+      return prayer
     } catch (error) {
       console.error('Error logging prayer:', error)
       toast.error('Failed to log prayer')
@@ -114,121 +100,182 @@ export const usePrayerData = (userId: string) => {
     }
   }
 
-  const updateStreak = async (prayerName: string) => {
+  const updatePrayer = async (
+    prayerId: string,
+    updates: Partial<Pick<Prayer, 'prayer_name' | 'start_time' | 'end_time' | 'status' | 'notes'>>
+  ) => {
     try {
-      const today = new Date().toDateString()
-      const todayLogs = prayerLogs.filter(log => 
-        new Date(log.loggedAt).toDateString() === today
-      )
-      
-      // Check if all 5 prayers are completed today
-      const todayPrayers = new Set(todayLogs.map(log => log.prayerName))
-      todayPrayers.add(prayerName) // Add the current prayer
-      
-      if (todayPrayers.size === 5) {
-        const newStreak = {
-          currentStreak: streak.currentStreak + 1,
-          longestStreak: Math.max(streak.longestStreak, streak.currentStreak + 1),
-          lastPrayerDate: today
-        }
-        setStreak(newStreak)
-        localStorage.setItem(`prayer_streak_${userId}`, JSON.stringify(newStreak))
-        
-        toast.success('All 5 prayers completed today! 🎉', {
-          description: `Current streak: ${newStreak.currentStreak} days`
-        })
-      }
+      const prayer = await PrayerService.updatePrayer(prayerId, updates)
+      await loadPrayerData()
+      toast.success(`${prayer.prayer_name} updated`)
+      return prayer
+    } catch (error) {
+      console.error('Error updating prayer:', error)
+      toast.error('Failed to update prayer')
+      throw error
+    }
+  }
+
+  const deletePrayer = async (prayer: Prayer) => {
+    try {
+      await PrayerService.deletePrayer(prayer.id)
+      await loadPrayerData()
+      toast.success(`${prayer.prayer_name} log deleted`, {
+        action: { label: 'Undo', onClick: () => restorePrayer(prayer) }
+      })
+    } catch (error) {
+      console.error('Error deleting prayer:', error)
+      toast.error('Failed to delete prayer')
+      throw error
+    }
+  }
+
+  const restorePrayer = async (prayer: Prayer) => {
+    try {
+      await PrayerService.restorePrayer(prayer.id)
+      await loadPrayerData()
+      toast.success(`${prayer.prayer_name} log restored`)
     } catch (error) {
-      console.error('Error updating streak:', error)
+      console.error('Error restoring prayer:', error)
+      toast.error('Failed to restore prayer')
+    }
+  }
+
+  // Taking back a log just made; it stays in the record's history like any delete
+  const undoLogPrayer = async (prayer: Prayer) => {
+    try {
+      await PrayerService.deletePrayer(prayer.id)
+      await loadPrayerData()
+      toast.success(`${prayer.prayer_name} log undone`)
+    } catch (error) {
+      console.error('Error undoing prayer log:', error)
+      toast.error('Failed to undo')
     }
   }
 
   const updateReminder = async (reminderId: string, updates: Partial<PrayerReminder>) => {
     try {
-      const updatedReminders = reminders.map(reminder =>
+      setReminders(prev => prev.map(reminder =>
         reminder.id === reminderId ? { ...reminder, ...updates } : reminder
-      )
-      setReminders(updatedReminders)
-      localStorage.setItem(`prayer_reminders_${userId}`, JSON.stringify(updatedReminders))
-      
+      ))
+      await PrayerService.updateReminder(reminderId, updates)
+
       toast.success('Reminder updated successfully')
     } catch (error) {
       console.error('Error updating reminder:', error)
       toast.error('Failed to update reminder')
+      await loadPrayerData()
     }
   }
 
-  const getTodaysPrayers = () => {
-    const today = new Date().toDateString()
-    return prayerLogs.filter(log => 
-      new Date(log.loggedAt).toDateString() === today
-    )
+  const createReminder = async (
+    prayerName: string,
+    timing: Pick<PrayerReminder, 'anchor' | 'offset_minutes' | 'reminder_time'>
+  ) => {
+    try {
+      const reminder = await PrayerService.createReminder(prayerName, timing)
+      setReminders(prev => [...prev, reminder].sort(compareReminders))
+      toast.success(`${prayerName} reminder added`)
+    } catch (error) {
+      console.error('Error creating reminder:', error)
+      toast.error('Failed to add reminder')
+    }
   }
 
-  const getWeeklyStats = () => {
-    const now = new Date()
-    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-    
-    const weeklyLogs = prayerLogs.filter(log => 
-      new Date(log.loggedAt) >= weekAgo
-    )
+  const deleteReminder = async (reminderId: string) => {
+    try {
+      setReminders(prev => prev.filter(reminder => reminder.id !== reminderId))
+      await PrayerService.deleteReminder(reminderId)
+    } catch (error) {
+      console.error('Error deleting reminder:', error)
+      toast.error('Failed to delete reminder')
+      await loadPrayerData()
+    }
+  }
+
+  const resolveConflict = async (conflictId: string, notes: string) => {
+    try {
+      setConflicts(prev => prev.filter(conflict => conflict.id !== conflictId))
+      await ConflictService.resolveConflict(conflictId, notes)
+      await loadPrayerData()
+    } catch (error) {
+      console.error('Error resolving conflict:', error)
+      toast.error('Failed to save your choice')
+      await loadPrayerData()
+    }
+  }
+
+  // Days are the location's, like prayer_date, not the device's
+  const getWeeklyStats = (timezone: string) => {
+    const todayKey = getDateKey(new Date(), timezone)
 
     const dailyStats = []
     for (let i = 6; i >= 0; i--) {
-      const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000)
-      const dayLogs = weeklyLogs.filter(log => 
-        new Date(log.loggedAt).toDateString() === date.toDateString()
+      const dateKey = shiftDateKey(todayKey, -i)
+      const date = parseISO(dateKey)
+      const dayPrayers = prayers.filter(prayer =>
+        prayer.prayer_date === dateKey && isPrayerPerformed(prayer)
       )
-      const uniquePrayers = new Set(dayLogs.map(log => log.prayerName))
-      
+      const uniquePrayers = new Set(dayPrayers.map(prayer => prayer.prayer_name))
+
       dailyStats.push({
-        date: date.toLocaleDateString('en-US', { weekday: 'short' }),
+        date: format(date, 'EEE'),
         completed: uniquePrayers.size,
         total: 5,
         fullDate: date
       })
     }
-    
+
     return dailyStats
   }
 
-  const getMonthlyStats = () => {
-    const now = new Date()
-    const monthAgo = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate())
-    
-    const monthlyLogs = prayerLogs.filter(log => 
-      new Date(log.loggedAt) >= monthAgo
+  // The last 30 days, today included
+  const getMonthlyStats = (timezone: string) => {
+    const range = getStatsRange('30d', getDateKey(new Date(), timezone))
+
+    const monthlyPrayers = prayers.filter(prayer =>
+      prayer.prayer_date >= range.from && prayer.prayer_date <= range.to && isPrayerPerformed(prayer)
     )
 
     return {
-      totalPrayers: monthlyLogs.length,
-      averagePerDay: monthlyLogs.length / 30,
-      mostPrayedTime: getMostPrayedTime(monthlyLogs),
-      totalDuration: monthlyLogs.reduce((sum, log) => sum + (log.durationMinutes || 0), 0)
+      totalPrayers: monthlyPrayers.length,
+      averagePerDay: monthlyPrayers.length / countRangeDays(range),
+      mostPrayedTime: getMostPrayedTime(monthlyPrayers),
+      totalDuration: monthlyPrayers.reduce((sum, prayer) => sum + (prayer.duration_minutes || 0), 0)
     }
   }
 
-  const getMostPrayedTime = (logs: PrayerLog[]) => {
+  const getMostPrayedTime = (logs: Prayer[]) => {
     const prayerCounts = logs.reduce((acc, log) => {
-      acc[log.prayerName] = (acc[log.prayerName] || 0) + 1
+      acc[log.prayer_name] = (acc[log.prayer_name] || 0) + 1
       return acc
     }, {} as Record<string, number>)
 
-    return Object.entries(prayerCounts).reduce((a, b) => 
-      prayerCounts[a[0]] > prayerCounts[b[0]] ? a : b
-    )?.[0] || 'None'
+    const entries = Object.entries(prayerCounts)
+    if (entries.length === 0) return 'None'
+
+    return entries.reduce((a, b) => a[1] >= b[1] ? a : b)[0]
   }
 
   return {
-    prayerLogs,
+    prayers,
+    todaysPrayers,
     reminders,
     streak,
+    prayerStreaks,
+    conflicts,
     loading,
     logPrayer,
+    updatePrayer,
+    deletePrayer,
+    restorePrayer,
+    undoLogPrayer,
     updateReminder,
-    getTodaysPrayers,
+    createReminder,
+    deleteReminder,
+    resolveConflict,
     getWeeklyStats,
     getMonthlyStats,
     loadPrayerData
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import { PrayerLocation, PrayerSettings, UserLocation, DEFAULT_LOCATION } from '../types/prayer'
+import { SettingsService } from '../services/settingsService'
+import { LocationService } from '../services/locationService'
+import { City } from '../data/cities'
+import { CalculationParams, DEFAULT_CALCULATION_PARAMS, toCalculationParams } from '../lib/calculationMethods'
+
+export const usePrayerSettings = () => {
+  const [settings, setSettings] = useState<PrayerSettings | null>(null)
+  const [userLocation, setUserLocation] = useState<UserLocation | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true)
+      const [settingsData, locationData] = await Promise.all([
+        SettingsService.getSettings(),
+        LocationService.getLocation()
+      ])
+      setSettings(settingsData)
+      setUserLocation(locationData)
+    } catch (error) {
+      console.error('Error loading prayer settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateSettings = async (updates: Partial<PrayerSettings>) => {
+    const previousSettings = settings
+    if (settings) {
+      setSettings({ ...settings, ...updates })
+    }
+
+    try {
+      setSettings(await SettingsService.updateSettings(updates))
+      toast.success('Settings saved')
+    } catch (error) {
+      console.error('Error updating prayer settings:', error)
+      setSettings(previousSettings)
+      toast.error('Failed to save settings')
+    }
+  }
+
+  const selectCity = async (city: City) => {
+    try {
+      setUserLocation(await LocationService.setLocationFromCity(city))
+      toast.success(`Location set to ${city.name}`)
+    } catch (error) {
+      console.error('Error saving location:', error)
+      toast.error('Failed to save location')
+    }
+  }
+
+  const detectLocation = async () => {
+    try {
+      const location = await LocationService.setLocationFromDevice()
+      setUserLocation(location)
+      toast.success(`Location set to ${location.name}`)
+    } catch (error) {
+      console.error('Error detecting location:', error)
+      toast.error('Could not detect your location', {
+        description: 'Allow location access or search for your city instead.'
+      })
+    }
+  }
+
+  const location: PrayerLocation = userLocation || DEFAULT_LOCATION
+
+  const calculationParams = useMemo<CalculationParams>(
+    () => settings ? toCalculationParams(settings) : DEFAULT_CALCULATION_PARAMS,
+    [settings]
+  )
+
+  return {
+    settings,
+    calculationParams,
+    userLocation,
+    location,
+    loading,
+    updateSettings,
+    selectCity,
+    detectLocation,
+    loadSettings
+  }
+}
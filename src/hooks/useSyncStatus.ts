@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react'
+import { SyncQueue, SyncStatus } from '../services/syncQueue'
+import { ConflictService } from '../services/conflictService'
+
+// Starts outbox replay on first use and follows its progress
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus>(() => SyncQueue.getStatus())
+
+  useEffect(() => {
+    // Listen before the first flush so conflicts it finds are recorded
+    ConflictService.start()
+    SyncQueue.start()
+    return SyncQueue.subscribe(setStatus)
+  }, [])
+
+  const syncNow = () => SyncQueue.flush()
+
+  return { ...status, syncNow }
+}
@@ -0,0 +1,146 @@
+import { AsrMadhab, CalculationMethodId, HighLatitudeRule, PrayerSettings, PrayerTimeName } from '../types/prayer'
+
+// An event is either a sun depression angle (degrees below the horizon)
+// or a fixed number of minutes after the preceding event
+export type TwilightRule = { angle: number } | { minutes: number }
+
+export interface CalculationMethod {
+  id: CalculationMethodId
+  name: string
+  region: string
+  fajrAngle: number
+  isha: TwilightRule // Minutes are counted from Maghrib
+  maghrib: TwilightRule // Minutes are counted from sunset
+}
+
+export type TimeOffsets = Partial<Record<PrayerTimeName, number>>
+
+export interface CalculationParams {
+  method: CalculationMethodId
+  madhab: AsrMadhab
+  highLatitudeRule: HighLatitudeRule
+  offsets: TimeOffsets // Minutes added to each computed time
+}
+
+export const CALCULATION_METHODS: Record<CalculationMethodId, CalculationMethod> = {
+  MWL: {
+    id: 'MWL',
+    name: 'Muslim World League',
+    region: 'Europe, Far East, parts of the US',
+    fajrAngle: 18,
+    isha: { angle: 17 },
+    maghrib: { minutes: 0 }
+  },
+  ISNA: {
+    id: 'ISNA',
+    name: 'Islamic Society of North America',
+    region: 'North America',
+    fajrAngle: 15,
+    isha: { angle: 15 },
+    maghrib: { minutes: 0 }
+  },
+  Egypt: {
+    id: 'Egypt',
+    name: 'Egyptian General Authority of Survey',
+    region: 'Africa, Syria, Lebanon, Malaysia',
+    fajrAngle: 19.5,
+    isha: { angle: 17.5 },
+    maghrib: { minutes: 0 }
+  },
+  Makkah: {
+    id: 'Makkah',
+    name: 'Umm al-Qura University, Makkah',
+    region: 'Arabian Peninsula',
+    fajrAngle: 18.5,
+    isha: { minutes: 90 },
+    maghrib: { minutes: 0 }
+  },
+  Karachi: {
+    id: 'Karachi',
+    name: 'University of Islamic Sciences, Karachi',
+    region: 'Pakistan, Afghanistan, Bangladesh, India',
+    fajrAngle: 18,
+    isha: { angle: 18 },
+    maghrib: { minutes: 0 }
+  },
+  Tehran: {
+    id: 'Tehran',
+    name: 'Institute of Geophysics, University of Tehran',
+    region: 'Iran, parts of Azerbaijan and Iraq',
+    fajrAngle: 17.7,
+    isha: { angle: 14 },
+    maghrib: { angle: 4.5 }
+  },
+  Gulf: {
+    id: 'Gulf',
+    name: 'Gulf Region',
+    region: 'UAE, Qatar, Kuwait, Bahrain, Oman',
+    fajrAngle: 19.5,
+    isha: { minutes: 90 },
+    maghrib: { minutes: 0 }
+  }
+}
+
+export const ASR_MADHABS: Record<AsrMadhab, { name: string, description: string, shadowFactor: number }> = {
+  shafi: {
+    name: "Standard (Shafi'i, Maliki, Hanbali)",
+    description: 'Asr begins when an object\'s shadow equals its length',
+    shadowFactor: 1
+  },
+  hanafi: {
+    name: 'Hanafi',
+    description: 'Asr begins when an object\'s shadow is twice its length',
+    shadowFactor: 2
+  }
+}
+
+export const HIGH_LATITUDE_RULES: Record<HighLatitudeRule, { name: string, description: string }> = {
+  none: {
+    name: 'No adjustment',
+    description: 'Fajr and Isha are left blank when twilight never ends'
+  },
+  middleOfNight: {
+    name: 'Middle of the night',
+    description: 'Fajr and Isha are capped at half of the night from sunrise and sunset'
+  },
+  oneSeventh: {
+    name: 'One-seventh of the night',
+    description: 'Fajr and Isha are capped at one-seventh of the night from sunrise and sunset'
+  },
+  angleBased: {
+    name: 'Angle-based',
+    description: 'The capped portion of the night is the twilight angle divided by 60'
+  }
+}
+
+export const DEFAULT_CALCULATION_PARAMS: CalculationParams = {
+  method: 'MWL',
+  madhab: 'shafi',
+  highLatitudeRule: 'angleBased',
+  offsets: {}
+}
+
+export function parseTimeOffsets(value: string | undefined): TimeOffsets {
+  if (!value) return {}
+  try {
+    const parsed = JSON.parse(value)
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, minutes]) => typeof minutes === 'number' && minutes !== 0)
+    )
+  } catch {
+    return {}
+  }
+}
+
+export function toCalculationParams(settings: PrayerSettings): CalculationParams {
+  return {
+    method: settings.calculation_method || DEFAULT_CALCULATION_PARAMS.method,
+    madhab: settings.asr_madhab || DEFAULT_CALCULATION_PARAMS.madhab,
+    highLatitudeRule: settings.high_latitude_rule || DEFAULT_CALCULATION_PARAMS.highLatitudeRule,
+    offsets: parseTimeOffsets(settings.time_offsets)
+  }
+}
+
+export function describeTwilightRule(rule: TwilightRule, from: string): string {
+  return 'angle' in rule ? `${rule.angle}°` : `${rule.minutes} min after ${from}`
+}
@@ -0,0 +1,246 @@
+import {
+  CompletionPoint,
+  DurationBin,
+  Prayer,
+  PrayerPeriodCounts,
+  RateMetric,
+  StatsRange,
+  StatsRangePreset,
+  DAILY_PRAYERS
+} from '../types/prayer'
+import { isPrayerPerformed } from './prayerStatus'
+import { getWeekStartKey, shiftDateKey } from './timezone'
+
+export const STATS_RANGE_PRESETS: Record<StatsRangePreset, { label: string, days: number | null }> = {
+  '7d': { label: '7 days', days: 7 },
+  '30d': { label: '30 days', days: 30 },
+  '90d': { label: '90 days', days: 90 },
+  year: { label: '12 months', days: 365 },
+  custom: { label: 'Custom', days: null }
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const DEFAULT_WEEK_START = 0 // Sunday
+
+// Ranges longer than this plot completion by week instead of by day
+const DAILY_COMPLETION_MAX_DAYS = 90
+
+// Upper bounds of each duration bin in minutes; the last bin is open-ended
+const DURATION_BIN_EDGES = [5, 10, 15, 20, 30, 45, 60]
+
+/**
+ * Resolve a preset to concrete days ending today. A custom range is clamped to
+ * today and put in order, so a range picked back to front still works.
+ */
+export function getStatsRange(preset: StatsRangePreset, today: string, custom?: Partial<StatsRange>): StatsRange {
+  const days = STATS_RANGE_PRESETS[preset].days
+  if (days !== null) {
+    return { from: shiftDateKey(today, -(days - 1)), to: today }
+  }
+
+  const [from, to] = [custom?.from || shiftDateKey(today, -29), custom?.to || today]
+    .map(dateKey => dateKey < today ? dateKey : today)
+    .sort()
+  return { from, to }
+}
+
+export function countRangeDays(range: StatsRange): number {
+  return Math.round((Date.parse(range.to) - Date.parse(range.from)) / 86400000) + 1
+}
+
+const inRange = (prayer: Prayer, range: StatsRange) =>
+  prayer.prayer_date >= range.from && prayer.prayer_date <= range.to
+
+// Each prayer counts once per day, however many times it was logged
+function getPerformedByDate(prayers: Prayer[], range: StatsRange): Map<string, Set<string>> {
+  const byDate = new Map<string, Set<string>>()
+  prayers
+    .filter(prayer => inRange(prayer, range) && isPrayerPerformed(prayer))
+    .forEach(prayer => {
+      byDate.set(prayer.prayer_date, (byDate.get(prayer.prayer_date) || new Set()).add(prayer.prayer_name))
+    })
+  return byDate
+}
+
+const emptyByPrayer = () => Object.fromEntries(DAILY_PRAYERS.map(({ name }) => [name, 0])) as Record<string, number>
+
+/**
+ * Performed prayers per week or month, split by prayer, for every period that
+ * overlaps the range (including empty ones, so gaps show on the chart).
+ */
+export function countByPeriod(
+  prayers: Prayer[],
+  range: StatsRange,
+  period: 'week' | 'month',
+  weekStartsOn: number = DEFAULT_WEEK_START
+): PrayerPeriodCounts[] {
+  const periodStart = (dateKey: string) =>
+    period === 'week' ? getWeekStartKey(dateKey, weekStartsOn) : `${dateKey.slice(0, 7)}-01`
+
+  const periods = new Map<string, PrayerPeriodCounts>()
+  for (let date = range.from; date <= range.to; date = shiftDateKey(date, 1)) {
+    const start = periodStart(date)
+    if (!periods.has(start)) periods.set(start, { start, byPrayer: emptyByPrayer(), total: 0 })
+  }
+
+  getPerformedByDate(prayers, range).forEach((names, date) => {
+    const counts = periods.get(periodStart(date))
+    if (!counts) return
+    names.forEach(name => {
+      counts.byPrayer[name] = (counts.byPrayer[name] || 0) + 1
+      counts.total += 1
+    })
+  })
+
+  return [...periods.values()]
+}
+
+interface DayOutcome {
+  due: Set<string> // Prayers owed that day: not excused, and (today) already logged or past their window
+  performed: Set<string> // Due prayers that were performed
+  onTime: Set<string>
+  over: boolean // Every prayer of the day is logged or past its window
+}
+
+/**
+ * What was owed and done on each day of the range. Excused prayers are not due.
+ * Days after `today` are left out; on `today` only prayers that are logged or
+ * whose window has closed (`closedToday`) are due, so an open window is never
+ * counted as a failure.
+ */
+function getDayOutcomes(prayers: Prayer[], range: StatsRange, today: string, closedToday: string[]): Map<string, DayOutcome> {
+  const byDate = new Map<string, Prayer[]>()
+  prayers
+    .filter(prayer => inRange(prayer, range))
+    .forEach(prayer => byDate.set(prayer.prayer_date, [...(byDate.get(prayer.prayer_date) || []), prayer]))
+
+  const outcomes = new Map<string, DayOutcome>()
+  for (let date = range.from; date <= range.to && date <= today; date = shiftDateKey(date, 1)) {
+    const dayPrayers = byDate.get(date) || []
+    const outcome: DayOutcome = { due: new Set(), performed: new Set(), onTime: new Set(), over: true }
+
+    DAILY_PRAYERS.forEach(({ name }) => {
+      const records = dayPrayers.filter(prayer => prayer.prayer_name === name)
+      const performed = records.some(isPrayerPerformed)
+      const excused = !performed && records.some(prayer => prayer.status === 'excused')
+      const settled = date < today || records.length > 0 || closedToday.includes(name)
+
+      if (!settled) {
+        outcome.over = false
+      } else if (!excused) {
+        outcome.due.add(name)
+        if (performed) outcome.performed.add(name)
+        if (records.some(prayer => prayer.status === 'on_time')) outcome.onTime.add(name)
+      }
+    })
+    outcomes.set(date, outcome)
+  }
+  return outcomes
+}
+
+const toRate = (count: number, total: number): RateMetric => ({
+  count,
+  total,
+  rate: total > 0 ? Math.round((count / total) * 100) : 0
+})
+
+/**
+ * Completion over the reporting window: prayers performed out of prayers due,
+ * complete days out of elapsed days, and prayers on time out of prayers due.
+ * A day has elapsed once every prayer is logged or past its window; fully
+ * excused days are left out.
+ */
+export function getCompletionMetrics(
+  prayers: Prayer[],
+  range: StatsRange,
+  today: string,
+  closedToday: string[] = []
+): { prayerCompletion: RateMetric, dayCompletion: RateMetric, onTimeRate: RateMetric } {
+  let due = 0
+  let performed = 0
+  let onTime = 0
+  let elapsedDays = 0
+  let completeDays = 0
+
+  getDayOutcomes(prayers, range, today, closedToday).forEach(outcome => {
+    due += outcome.due.size
+    performed += outcome.performed.size
+    onTime += outcome.onTime.size
+    if (outcome.over && outcome.due.size > 0) {
+      elapsedDays += 1
+      if (outcome.performed.size === outcome.due.size) completeDays += 1
+    }
+  })
+
+  return {
+    prayerCompletion: toRate(performed, due),
+    dayCompletion: toRate(completeDays, elapsedDays),
+    onTimeRate: toRate(onTime, due)
+  }
+}
+
+// Prayers performed out of prayers due, for each daily prayer on its own
+export function getPrayerCompletion(
+  prayers: Prayer[],
+  range: StatsRange,
+  today: string,
+  closedToday: string[] = []
+): Record<string, RateMetric> {
+  const counts = new Map<string, { performed: number, due: number }>(DAILY_PRAYERS.map(({ name }) => [name, { performed: 0, due: 0 }]))
+  getDayOutcomes(prayers, range, today, closedToday).forEach(outcome => {
+    outcome.due.forEach(name => {
+      const count = counts.get(name)
+      if (!count) return
+      count.due += 1
+      if (outcome.performed.has(name)) count.performed += 1
+    })
+  })
+  return Object.fromEntries(
+    [...counts.entries()].map(([name, count]) => [name, toRate(count.performed, count.due)])
+  )
+}
+
+/**
+ * Share of due prayers that were performed, per day or (for long ranges) per
+ * week, with the same idea of "due" as getCompletionMetrics.
+ */
+export function getCompletionSeries(
+  prayers: Prayer[],
+  range: StatsRange,
+  today: string,
+  closedToday: string[] = [],
+  weekStartsOn: number = DEFAULT_WEEK_START
+): CompletionPoint[] {
+  const weekly = countRangeDays(range) > DAILY_COMPLETION_MAX_DAYS
+  const periodStart = (dateKey: string) => weekly ? getWeekStartKey(dateKey, weekStartsOn) : dateKey
+
+  const points = new Map<string, CompletionPoint>()
+  getDayOutcomes(prayers, range, today, closedToday).forEach((outcome, date) => {
+    const start = periodStart(date)
+    const point = points.get(start) || { start, completed: 0, due: 0, rate: 0 }
+    point.completed += outcome.performed.size
+    point.due += outcome.due.size
+    points.set(start, point)
+  })
+
+  return [...points.values()].map(point => ({
+    ...point,
+    rate: toRate(point.completed, point.due).rate
+  }))
+}
+
+// How long prayers took, from prayers timed with the prayer timer
+export function getDurationHistogram(prayers: Prayer[], range: StatsRange): DurationBin[] {
+  const bins: DurationBin[] = DURATION_BIN_EDGES.map((to, i) => ({ from: i === 0 ? 0 : DURATION_BIN_EDGES[i - 1], to, count: 0 }))
+  bins.push({ from: DURATION_BIN_EDGES[DURATION_BIN_EDGES.length - 1], to: null, count: 0 })
+
+  prayers
+    .filter(prayer => inRange(prayer, range) && prayer.duration_minutes)
+    .forEach(prayer => {
+      const minutes = prayer.duration_minutes as number
+      const bin = bins.find(bin => bin.to === null || minutes < bin.to) as DurationBin
+      bin.count += 1
+    })
+  return bins
+}
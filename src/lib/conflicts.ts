@@ -0,0 +1,159 @@
+import { Prayer } from '../types/prayer'
+import { compareHlc, formatHlc, receiveHlc } from './hlc'
+import { isPrayerPerformed } from './prayerStatus'
+
+// HLC timestamp of the last write to each field, stored as JSON in `field_clocks`
+export type FieldClocks = Record<string, string>
+
+// Fields where losing a concurrent edit silently would lose something the user wrote
+export const REVIEWED_FIELDS = ['notes']
+
+const UNSTAMPED_FIELDS = ['id', 'user_id', 'field_clocks']
+
+export interface FieldConflict {
+  table: string
+  record_id: string
+  field: string
+  kept_value: string
+  other_value: string
+  clock: string // Timestamp of the losing edit; identifies the conflict
+}
+
+export function parseFieldClocks(json?: string): FieldClocks {
+  if (!json) return {}
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    return {}
+  }
+}
+
+export function stampFields(clocks: FieldClocks, fields: string[], timestamp: string): FieldClocks {
+  const stamped = { ...clocks }
+  fields
+    .filter(field => !UNSTAMPED_FIELDS.includes(field))
+    .forEach(field => {
+      stamped[field] = timestamp
+    })
+  return stamped
+}
+
+// Keep the local clock ahead of everything another device has written
+export function observeFieldClocks(json?: string): void {
+  Object.values(parseFieldClocks(json)).forEach(timestamp => receiveHlc(timestamp))
+}
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim() !== ''
+
+/**
+ * Field-level last-writer-wins for an update about to be written over `remote`.
+ * Fields the server has a later write for are dropped. A reviewed field edited
+ * on both sides since `baseClocks` (the clocks the local edit started from)
+ * with different text is reported as a conflict, whichever side won.
+ */
+export function resolveFieldUpdates(
+  table: string,
+  recordId: string,
+  updates: Record<string, any>,
+  baseClocks: FieldClocks,
+  remote: Record<string, any>
+): { data: Record<string, any>, conflicts: FieldConflict[] } {
+  const localClocks = parseFieldClocks(updates.field_clocks)
+  const remoteClocks = parseFieldClocks(remote.field_clocks)
+  const mergedClocks = { ...remoteClocks }
+  const data: Record<string, any> = {}
+  const conflicts: FieldConflict[] = []
+
+  Object.keys(updates)
+    .filter(field => !UNSTAMPED_FIELDS.includes(field))
+    .forEach(field => {
+      const localWins = compareHlc(localClocks[field], remoteClocks[field]) > 0
+      if (localWins) {
+        data[field] = updates[field]
+        mergedClocks[field] = localClocks[field]
+      }
+
+      const editedRemotely = remoteClocks[field] !== undefined && remoteClocks[field] !== baseClocks[field]
+      if (
+        REVIEWED_FIELDS.includes(field) &&
+        editedRemotely &&
+        hasText(updates[field]) &&
+        hasText(remote[field]) &&
+        updates[field] !== remote[field]
+      ) {
+        conflicts.push({
+          table,
+          record_id: recordId,
+          field,
+          kept_value: localWins ? updates[field] : remote[field],
+          other_value: localWins ? remote[field] : updates[field],
+          clock: localWins ? remoteClocks[field] : localClocks[field]
+        })
+      }
+    })
+
+  if (Object.keys(data).length > 0) {
+    data.field_clocks = JSON.stringify(mergedClocks)
+  }
+  return { data, conflicts }
+}
+
+// Performed beats excused beats missed; then the earliest start, then id, so every device picks the same one
+function comparePrayerPriority(a: Prayer, b: Prayer): number {
+  const rank = (prayer: Prayer) => isPrayerPerformed(prayer) ? 0 : prayer.status === 'excused' ? 1 : 2
+  return rank(a) - rank(b)
+    || a.start_time.localeCompare(b.start_time)
+    || a.id.localeCompare(b.id)
+}
+
+export interface DuplicateMerge {
+  merged: Prayer
+  duplicates: Prayer[]
+  conflicts: { duplicate: Prayer, kept_value: string, other_value: string }[]
+}
+
+// Group logs of the same prayer on the same day; only groups of two or more need merging
+export function findDuplicatePrayers(prayers: Prayer[]): Prayer[][] {
+  const groups = new Map<string, Prayer[]>()
+  prayers.forEach(prayer => {
+    const key = `${prayer.prayer_date}|${prayer.prayer_name}`
+    groups.set(key, [...(groups.get(key) || []), prayer])
+  })
+  return [...groups.values()].filter(group => group.length > 1)
+}
+
+/**
+ * Fold duplicate logs into the highest-priority one. Empty fields are filled
+ * from the duplicates; differing notes keep the most recently written one and
+ * report the rest for review.
+ */
+export function mergeDuplicatePrayers(group: Prayer[]): DuplicateMerge {
+  const [primary, ...duplicates] = [...group].sort(comparePrayerPriority)
+  const merged: Prayer = { ...primary }
+
+  duplicates.forEach(duplicate => {
+    if (!merged.end_time && duplicate.end_time) merged.end_time = duplicate.end_time
+    if (!merged.duration_minutes && duplicate.duration_minutes) merged.duration_minutes = duplicate.duration_minutes
+  })
+
+  // Records from before field clocks existed fall back to their last update time
+  const notesClock = (prayer: Prayer) =>
+    parseFieldClocks(prayer.field_clocks).notes || formatHlc(Date.parse(prayer.updated_at) || 0, 0, '')
+  const withNotes = [primary, ...duplicates]
+    .filter(prayer => hasText(prayer.notes))
+    .sort((a, b) => compareHlc(notesClock(b), notesClock(a)))
+  const conflicts: DuplicateMerge['conflicts'] = []
+  if (withNotes.length > 0) {
+    const [latest, ...others] = withNotes
+    merged.notes = latest.notes
+    others
+      .filter(prayer => prayer.notes !== latest.notes)
+      .forEach(prayer => conflicts.push({
+        duplicate: prayer,
+        kept_value: latest.notes as string,
+        other_value: prayer.notes as string
+      }))
+  }
+
+  return { merged, duplicates, conflicts }
+}
@@ -0,0 +1,34 @@
+import { CITIES, City } from '../data/cities'
+
+const EARTH_RADIUS_KM = 6371
+
+// Great-circle distance between two coordinates
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (d: number) => (d * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+export function findNearestCity(latitude: number, longitude: number, maxDistanceKm: number = 50): City | null {
+  let nearest: City | null = null
+  let nearestDistance = maxDistanceKm
+
+  for (const city of CITIES) {
+    const distance = distanceKm(latitude, longitude, city.latitude, city.longitude)
+    if (distance <= nearestDistance) {
+      nearest = city
+      nearestDistance = distance
+    }
+  }
+
+  return nearest
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? 'N' : 'S'}`
+  const lng = `${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? 'E' : 'W'}`
+  return `${lat}, ${lng}`
+}
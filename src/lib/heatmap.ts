@@ -0,0 +1,76 @@
+import { Prayer, PrayerStatus, StatsRange, DAILY_PRAYERS } from '../types/prayer'
+import { getWeekStartKey, shiftDateKey } from './timezone'
+
+export interface HeatmapDay {
+  date: string // "yyyy-MM-dd"
+  week: number // Column, counted from the week containing the first day
+  weekday: number // Row, 0 = the first day of the week
+  counts: Record<PrayerStatus, number> // One per daily prayer, by its best status
+  score: number // 0-1, completion weighted by punctuality
+  level: number // 0-4 colour step
+  future: boolean
+}
+
+// Credit per prayer; excused prayers are left out of the day's total instead
+const STATUS_CREDIT: Record<PrayerStatus, number> = {
+  on_time: 1,
+  late: 0.7,
+  qada: 0.4,
+  missed: 0,
+  excused: 0
+}
+
+const STATUS_RANK: PrayerStatus[] = ['on_time', 'late', 'qada', 'excused', 'missed']
+
+/**
+ * One cell per day of the range, laid out in week columns like a contribution
+ * graph. A day's score is the average credit of its five prayers, so a day of
+ * on-time prayers is darker than one of qada.
+ */
+export function buildHeatmap(prayers: Prayer[], range: StatsRange, today: string, weekStartsOn: number = 0): HeatmapDay[] {
+  const firstWeek = getWeekStartKey(range.from, weekStartsOn)
+
+  const statusesByDate = new Map<string, Map<string, PrayerStatus>>()
+  prayers
+    .filter(prayer => prayer.prayer_date >= range.from && prayer.prayer_date <= range.to)
+    .forEach(prayer => {
+      const day = statusesByDate.get(prayer.prayer_date) || new Map<string, PrayerStatus>()
+      const current = day.get(prayer.prayer_name)
+      if (!current || STATUS_RANK.indexOf(prayer.status) < STATUS_RANK.indexOf(current)) {
+        day.set(prayer.prayer_name, prayer.status)
+      }
+      statusesByDate.set(prayer.prayer_date, day)
+    })
+
+  const days: HeatmapDay[] = []
+  for (let date = range.from; date <= range.to; date = shiftDateKey(date, 1)) {
+    const offset = Math.round((Date.parse(date) - Date.parse(firstWeek)) / 86400000)
+    const statuses = statusesByDate.get(date) || new Map<string, PrayerStatus>()
+    const counts: Record<PrayerStatus, number> = { on_time: 0, late: 0, qada: 0, missed: 0, excused: 0 }
+    statuses.forEach(status => {
+      counts[status] += 1
+    })
+
+    const due = DAILY_PRAYERS.length - counts.excused
+    const credit = DAILY_PRAYERS.reduce((sum, { name }) => {
+      const status = statuses.get(name)
+      return sum + (status ? STATUS_CREDIT[status] : 0)
+    }, 0)
+    const score = due > 0 ? credit / due : 0
+
+    days.push({
+      date,
+      week: Math.floor(offset / 7),
+      weekday: offset % 7,
+      counts,
+      score,
+      level: score === 0 ? 0 : Math.min(4, Math.ceil(score * 4)),
+      future: date > today
+    })
+  }
+  return days
+}
+
+export function buildYearHeatmap(prayers: Prayer[], year: number, today: string, weekStartsOn: number = 0): HeatmapDay[] {
+  return buildHeatmap(prayers, { from: `${year}-01-01`, to: `${year}-12-31` }, today, weekStartsOn)
+}
@@ -0,0 +1,50 @@
+import { shiftDateKey } from './timezone'
+
+const hijriFormatterCache = new Map<string, Intl.DateTimeFormat>()
+
+// Hijri (Umm al-Qura) calendar date of an instant, e.g. "Ramadan 14, 1447 AH"
+export function formatHijriDate(date: Date, timezone: string): string {
+  let formatter = hijriFormatterCache.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+      timeZone: timezone,
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric'
+    })
+    hijriFormatterCache.set(timezone, formatter)
+  }
+  return formatter.format(date)
+}
+
+// Umm al-Qura dates of calendar days; noon UTC keeps every day on its own date
+const hijriPartsFormatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+  timeZone: 'UTC',
+  day: 'numeric',
+  month: 'long',
+  year: 'numeric'
+})
+
+function getHijriParts(dateKey: string): { day: number, month: string, year: string } {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const parts = hijriPartsFormatter.formatToParts(new Date(Date.UTC(year, month - 1, day, 12)))
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+  return { day: Number(part('day')), month: part('month'), year: part('year') }
+}
+
+export interface HijriMonth {
+  from: string // First calendar day, "yyyy-MM-dd"
+  to: string // Last calendar day, inclusive
+  label: string // e.g. "Ramadan 1447 AH"
+}
+
+// The Hijri month a calendar day falls in, as the calendar days it spans (29 or 30)
+export function getHijriMonth(dateKey: string): HijriMonth {
+  const { day, month, year } = getHijriParts(dateKey)
+  const from = shiftDateKey(dateKey, -(day - 1))
+  let to = shiftDateKey(from, 28)
+  while (getHijriParts(shiftDateKey(to, 1)).day !== 1) {
+    to = shiftDateKey(to, 1)
+  }
+  return { from, to, label: `${month} ${year} AH` }
+}
@@ -0,0 +1,69 @@
+// Hybrid logical clock. Timestamps look like "001760000000000:00000:k3j9x2"
+// (wall ms, counter, node id), fixed width so they compare as plain strings.
+
+const NODE_ID_KEY = 'hlc_node_id'
+
+let lastWall = 0
+let lastCounter = 0
+let nodeId: string | null = null
+
+function getNodeId(): string {
+  // The service worker has no localStorage; a node id per worker instance is still unique
+  if (!nodeId && typeof localStorage === 'undefined') {
+    nodeId = Math.random().toString(36).substr(2, 6).padEnd(6, '0')
+  }
+  if (!nodeId) {
+    nodeId = localStorage.getItem(NODE_ID_KEY)
+    if (!nodeId) {
+      nodeId = Math.random().toString(36).substr(2, 6).padEnd(6, '0')
+      localStorage.setItem(NODE_ID_KEY, nodeId)
+    }
+  }
+  return nodeId
+}
+
+export function formatHlc(wall: number, counter: number, node: string): string {
+  return `${String(wall).padStart(15, '0')}:${String(counter).padStart(5, '0')}:${node}`
+}
+
+export function parseHlc(timestamp: string): { wall: number, counter: number, node: string } {
+  const [wall, counter, node] = timestamp.split(':')
+  return { wall: Number(wall), counter: Number(counter), node }
+}
+
+// A timestamp for a local event, later than every timestamp issued or seen so far
+export function nextHlc(now: number = Date.now()): string {
+  if (now > lastWall) {
+    lastWall = now
+    lastCounter = 0
+  } else {
+    lastCounter += 1
+  }
+  return formatHlc(lastWall, lastCounter, getNodeId())
+}
+
+// Advance past a timestamp from another device so local edits made after seeing it sort after it
+export function receiveHlc(timestamp: string, now: number = Date.now()): void {
+  const remote = parseHlc(timestamp)
+  if (!Number.isFinite(remote.wall)) return
+
+  const wall = Math.max(lastWall, remote.wall, now)
+  if (wall === lastWall && wall === remote.wall) {
+    lastCounter = Math.max(lastCounter, remote.counter) + 1
+  } else if (wall === lastWall) {
+    lastCounter += 1
+  } else if (wall === remote.wall) {
+    lastCounter = remote.counter + 1
+  } else {
+    lastCounter = 0
+  }
+  lastWall = wall
+}
+
+// Missing timestamps sort first, so any stamped edit beats an unstamped value
+export function compareHlc(a?: string, b?: string): number {
+  if (a === b) return 0
+  if (!a) return -1
+  if (!b) return 1
+  return a < b ? -1 : 1
+}
@@ -0,0 +1,171 @@
+// IndexedDB store holding every synced table locally, plus the outbox of
+// mutations that have not reached blink.db yet. Shared with the service worker.
+
+const DB_NAME = 'daily-prayer-tracker'
+const DB_VERSION = 2
+const RECORDS = 'records'
+const OUTBOX = 'outbox'
+const VALUES = 'values' // Small keyed state, e.g. the notification schedule
+
+interface StoredRecord<T> {
+  key: string // `${table}:${id}`
+  table: string
+  user_id: string
+  record: T
+}
+
+export type MutationType = 'create' | 'update' | 'delete'
+
+export interface PendingMutation {
+  id?: number // Auto-incremented; replay order
+  table: string
+  type: MutationType
+  record_id: string
+  user_id: string
+  data?: Record<string, any> // Full record for create, changed fields for update
+  base_clocks?: string // Field clocks of the record an update was made against
+  attempts: number
+  next_attempt_at: number // Epoch ms
+  last_error?: string
+  created_at: string
+}
+
+// Value key holding when a table was last pulled from blink.db for a user, as an ISO time
+export const getPulledAtKey = (table: string, userId: string) => `pulled_at:${table}:${userId}`
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openLocalStore(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in globalThis)) {
+        reject(new Error('IndexedDB is not supported in this browser'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(RECORDS)) {
+          const records = db.createObjectStore(RECORDS, { keyPath: 'key' })
+          records.createIndex('table_user', ['table', 'user_id'])
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true })
+        }
+        if (!db.objectStoreNames.contains(VALUES)) {
+          db.createObjectStore(VALUES)
+        }
+      }
+      request.onsuccess = () => {
+        // Let a newer version (another tab or the service worker) upgrade the schema
+        request.result.onversionchange = () => {
+          request.result.close()
+          dbPromise = null
+        }
+        resolve(request.result)
+      }
+      request.onerror = () => reject(request.error)
+    })
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// False where IndexedDB can't be opened, e.g. some private browsing modes
+export function isLocalStoreAvailable(): Promise<boolean> {
+  return openLocalStore().then(() => true, () => false)
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const recordKey = (table: string, id: string) => `${table}:${id}`
+
+export async function getLocalRecords<T>(table: string, userId: string): Promise<T[]> {
+  const db = await openLocalStore()
+  const index = db.transaction(RECORDS).objectStore(RECORDS).index('table_user')
+  const stored: StoredRecord<T>[] = await promisify(index.getAll([table, userId]))
+  return stored.map(entry => entry.record)
+}
+
+export async function getLocalRecord<T>(table: string, id: string): Promise<T | null> {
+  const db = await openLocalStore()
+  const stored: StoredRecord<T> | undefined = await promisify(
+    db.transaction(RECORDS).objectStore(RECORDS).get(recordKey(table, id))
+  )
+  return stored ? stored.record : null
+}
+
+export async function putLocalRecords<T extends { id: string, user_id: string }>(table: string, records: T[]): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(RECORDS, 'readwrite')
+  const store = transaction.objectStore(RECORDS)
+  records.forEach(record => {
+    const entry: StoredRecord<T> = { key: recordKey(table, record.id), table, user_id: record.user_id, record }
+    store.put(entry)
+  })
+  await transactionDone(transaction)
+}
+
+export async function deleteLocalRecords(table: string, ids: string[]): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(RECORDS, 'readwrite')
+  const store = transaction.objectStore(RECORDS)
+  ids.forEach(id => store.delete(recordKey(table, id)))
+  await transactionDone(transaction)
+}
+
+export async function addPendingMutation(mutation: Omit<PendingMutation, 'id'>): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(OUTBOX, 'readwrite')
+  transaction.objectStore(OUTBOX).add(mutation)
+  await transactionDone(transaction)
+}
+
+// Oldest first, which is the order they must be replayed in
+export async function getPendingMutations(): Promise<PendingMutation[]> {
+  const db = await openLocalStore()
+  return promisify(db.transaction(OUTBOX).objectStore(OUTBOX).getAll())
+}
+
+export async function updatePendingMutation(mutation: PendingMutation): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(OUTBOX, 'readwrite')
+  transaction.objectStore(OUTBOX).put(mutation)
+  await transactionDone(transaction)
+}
+
+export async function removePendingMutation(id: number): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(OUTBOX, 'readwrite')
+  transaction.objectStore(OUTBOX).delete(id)
+  await transactionDone(transaction)
+}
+
+export async function getLocalValue<T>(key: string): Promise<T | null> {
+  const db = await openLocalStore()
+  const value: T | undefined = await promisify(db.transaction(VALUES).objectStore(VALUES).get(key))
+  return value === undefined ? null : value
+}
+
+export async function setLocalValue<T>(key: string, value: T): Promise<void> {
+  const db = await openLocalStore()
+  const transaction = db.transaction(VALUES, 'readwrite')
+  transaction.objectStore(VALUES).put(value, key)
+  await transactionDone(transaction)
+}
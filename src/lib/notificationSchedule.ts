@@ -0,0 +1,162 @@
+import { FollowUpStep, PrayerLocation, PrayerReminder } from '../types/prayer'
+import { CalculationParams } from './calculationMethods'
+import { FollowUpLevel, ScheduledReminder, describeReminder, getReminderAnchor, getReminderTitle } from './reminders'
+
+// Everything the service worker needs to resolve reminders without the app open
+export interface ReminderSchedule {
+  reminders: PrayerReminder[]
+  location: PrayerLocation
+  params: CalculationParams
+  follow_up_steps: FollowUpStep[]
+  updated_at: string
+}
+
+// Messages the page posts to the service worker
+export type ServiceWorkerMessage =
+  | { type: 'schedule', schedule: ReminderSchedule }
+  | { type: 'check' } // Deliver anything that came due; sent when the page wakes up
+  | { type: 'prayers-changed' } // A prayer was logged or loaded; withdraw follow-ups it answers
+  | { type: 'test', prayerName: string }
+
+// Messages the service worker posts to open windows
+export type ClientMessage =
+  | { type: 'prayer-logged', prayer_name: string }
+  | { type: 'open-timer', prayer_name: string }
+  | { type: 'wake', at: string } // Ask the page to send a 'check' then, for a snooze
+  | { type: 'pull' } // Follow-ups are waiting on a pull from blink.db; pull, then send a 'check'
+
+export type ReminderAction = 'prayed' | 'snooze'
+
+export const REMINDER_ACTIONS: Record<ReminderAction, { title: string }> = {
+  prayed: { title: 'Prayed now' },
+  snooze: { title: 'Snooze 10 min' }
+}
+
+export const SNOOZE_MS = 10 * 60 * 1000
+
+// Attached to each reminder notification
+export interface ReminderNotificationData {
+  reminder_id: string
+  user_id: string
+  prayer_name: string
+  date: string // Prayer day, "yyyy-MM-dd"
+  at: string // ISO time the reminder was due
+  follow_up: boolean
+  opens_timer: boolean // Tapping the notification opens the prayer timer
+}
+
+// Local store keys, shared by the page and the service worker
+export const SCHEDULE_KEY = 'notification_schedule'
+export const LAST_CHECK_KEY = 'notification_last_check'
+export const TRIGGERS_UNTIL_KEY = 'notification_triggers_until'
+export const SNOOZES_KEY = 'notification_snoozes'
+export const FOLLOW_UPS_UNTIL_KEY = 'notification_follow_ups_until'
+
+// A snoozed reminder, due again at `at`
+export interface SnoozedReminder {
+  reminder_id: string
+  date: string
+  at: string
+}
+
+// The query parameter that opens the prayer timer, e.g. "/?timer=Asr"
+export const TIMER_PARAM = 'timer'
+
+export const PERIODIC_SYNC_TAG = 'prayer-reminders'
+
+// Notification Triggers are scheduled this far ahead; periodic sync or the next
+// visit extends the horizon. Follow-ups are never triggered: each waits for a
+// pull from blink.db, so a prayer logged on another device withdraws it.
+export const TRIGGER_HORIZON_MS = 48 * 60 * 60 * 1000
+
+// A reminder delivered late by a wake-up is dropped once it is this stale
+export const MAX_LATENESS_MS = 30 * 60 * 1000
+
+// A reminder before the adhan can be neither answered with "Prayed now" nor timed
+const isBeforeAdhan = (reminder: PrayerReminder) =>
+  getReminderAnchor(reminder) === 'adhan' && (reminder.offset_minutes || 0) < 0
+
+// Chrome shows only two actions, so the timer opens from a tap on the notification instead
+export function getReminderActions(reminder: PrayerReminder): ReminderAction[] {
+  return isBeforeAdhan(reminder) ? ['snooze'] : ['prayed', 'snooze']
+}
+
+// Notification options beyond the TypeScript DOM lib: vibration, actions and
+// Notification Triggers
+export type ReminderNotificationOptions = NotificationOptions & {
+  timestamp: number
+  vibrate: number[]
+  actions?: { action: string, title: string }[]
+  showTrigger?: object
+}
+
+// How hard a notification presses: plain reminders are gentle, follow-ups grow
+// stronger toward the last one before the window ends
+export interface ReminderIntensity {
+  level: number // 0 = reminder, 1 ... 3 = follow-ups, 3 being the last
+  requireInteraction: boolean
+  vibrate: number[]
+  beeps: number // Repeats of the in-app sound
+}
+
+export function getReminderIntensity(followUp?: FollowUpLevel): ReminderIntensity {
+  if (!followUp) return { level: 0, requireInteraction: false, vibrate: [200], beeps: 1 }
+  const level = followUp.step === followUp.of ? 3 : followUp.step === followUp.of - 1 ? 2 : 1
+  return {
+    level,
+    requireInteraction: level >= 2,
+    vibrate: level === 3 ? [400, 150, 400, 150, 400] : level === 2 ? [300, 150, 300] : [250],
+    beeps: level + 1
+  }
+}
+
+const formatMinutesLeft = (from: Date, to: Date) => {
+  const minutes = Math.max(1, Math.round((to.getTime() - from.getTime()) / 60000))
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`
+  const hours = Math.floor(minutes / 60)
+  return `${hours}h ${minutes % 60}m`
+}
+
+export function getReminderNotification(
+  { reminder, date, at, followUp }: ScheduledReminder
+): { title: string, options: ReminderNotificationOptions } {
+  const data: ReminderNotificationData = {
+    reminder_id: reminder.id,
+    user_id: reminder.user_id,
+    prayer_name: reminder.prayer_name,
+    date,
+    at: at.toISOString(),
+    follow_up: !!followUp,
+    opens_timer: !isBeforeAdhan(reminder)
+  }
+  const intensity = getReminderIntensity(followUp)
+  const common = {
+    icon: '/favicon.svg',
+    badge: '/favicon.svg',
+    timestamp: at.getTime(),
+    requireInteraction: intensity.requireInteraction,
+    vibrate: intensity.vibrate,
+    data
+  }
+
+  if (followUp) {
+    const left = formatMinutesLeft(at, followUp.windowEnd)
+    return {
+      title: intensity.level === 3 ? `Last call for ${reminder.prayer_name}` : `${reminder.prayer_name} not logged yet`,
+      options: {
+        ...common,
+        body: `${reminder.prayer_name} time ends in ${left}. Pray and log it before it runs out.`,
+        tag: `followup:${reminder.prayer_name}:${date}:${followUp.step}`
+      }
+    }
+  }
+  return {
+    title: getReminderTitle(reminder),
+    options: {
+      ...common,
+      body: `${describeReminder(reminder)}. May Allah accept your worship.`,
+      // One tag per occurrence, so a reminder delivered twice by overlapping wake-ups shows once
+      tag: `reminder:${reminder.id}:${at.getTime()}`
+    }
+  }
+}
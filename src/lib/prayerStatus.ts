@@ -0,0 +1,163 @@
+import { Prayer, PrayerLocation, PrayerStatus } from '../types/prayer'
+import { CalculationParams } from './calculationMethods'
+import { calculatePrayerTimes } from './prayerTimes'
+import { PrayerWindow, getAdjacentPrayerTimes, getDailyWindows } from './prayerWindows'
+import { getDateKey } from './timezone'
+
+export const PRAYER_STATUSES: Record<PrayerStatus, { label: string, color: string, description: string }> = {
+  on_time: {
+    label: 'On time',
+    color: 'bg-green-500',
+    description: 'Prayed in the first half of its window'
+  },
+  late: {
+    label: 'Late',
+    color: 'bg-yellow-500',
+    description: 'Prayed in the second half of its window'
+  },
+  qada: {
+    label: 'Qada',
+    color: 'bg-orange-500',
+    description: 'Made up after its window closed'
+  },
+  missed: {
+    label: 'Missed',
+    color: 'bg-red-500',
+    description: 'Not prayed'
+  },
+  excused: {
+    label: 'Excused',
+    color: 'bg-slate-400',
+    description: 'Not due, e.g. while ill or menstruating'
+  }
+}
+
+// Statuses that mean the prayer was actually performed
+export const PERFORMED_STATUSES: PrayerStatus[] = ['on_time', 'late', 'qada']
+
+export function isPrayerPerformed(prayer: Pick<Prayer, 'status'>): boolean {
+  return PERFORMED_STATUSES.includes(prayer.status)
+}
+
+/**
+ * Judge a prayer performed at `performedAt` against its computed window. The
+ * prayer is attributed to the window it falls in, or else to the latest window
+ * that had already opened, in which case it is qada.
+ */
+export function derivePrayerStatus(
+  prayerName: string,
+  performedAt: Date,
+  location: PrayerLocation,
+  params: CalculationParams
+): { status: PrayerStatus, prayerDate: string } {
+  const today = calculatePrayerTimes(performedAt, location, params)
+  const yesterday = getAdjacentPrayerTimes(today, -1, location, params)
+  const tomorrow = getAdjacentPrayerTimes(today, 1, location, params)
+
+  const windows = [
+    ...getDailyWindows(yesterday, today),
+    ...getDailyWindows(today, tomorrow)
+  ].filter(window => window.name === prayerName)
+
+  const containing = windows.find(window => performedAt >= window.start && performedAt < window.end)
+  if (containing) {
+    const midpoint = (containing.start.getTime() + containing.end.getTime()) / 2
+    return {
+      status: performedAt.getTime() < midpoint ? 'on_time' : 'late',
+      prayerDate: containing.date
+    }
+  }
+
+  const lastOpened = windows.filter(window => window.start <= performedAt).pop()
+  if (lastOpened) {
+    return { status: 'qada', prayerDate: lastOpened.date }
+  }
+
+  // No computable window (e.g. polar day without a high-latitude rule)
+  return { status: 'on_time', prayerDate: getDateKey(performedAt, location.timezone) }
+}
+
+/**
+ * Today's window for a prayer whose adhan is still ahead at `at`, unless the
+ * previous day's window is still open then (Isha after midnight). A prayer
+ * can't be performed before its time, so derivePrayerStatus would otherwise
+ * file it as qada for the day before.
+ */
+export function getUpcomingWindow(
+  prayerName: string,
+  at: Date,
+  location: PrayerLocation,
+  params: CalculationParams
+): PrayerWindow | undefined {
+  const today = calculatePrayerTimes(at, location, params)
+  const yesterday = getAdjacentPrayerTimes(today, -1, location, params)
+  const tomorrow = getAdjacentPrayerTimes(today, 1, location, params)
+
+  const stillOpen = getDailyWindows(yesterday, today)
+    .some(window => window.name === prayerName && at >= window.start && at < window.end)
+  if (stillOpen) return undefined
+  return getDailyWindows(today, tomorrow).find(window => window.name === prayerName && window.start > at)
+}
+
+export function isPrayerDue(prayerName: string, at: Date, location: PrayerLocation, params: CalculationParams): boolean {
+  return !getUpcomingWindow(prayerName, at, location, params)
+}
+
+/**
+ * A newly logged prayer, attributed to its window. `status` overrides the
+ * derived one for prayers that were not performed (excused/missed); those may
+ * be logged ahead of the adhan and belong to today's window, while a performed
+ * prayer can't be logged before it.
+ */
+export function createPrayerRecord(
+  userId: string,
+  prayerName: string,
+  location: PrayerLocation,
+  params: CalculationParams,
+  startTime?: Date,
+  endTime?: Date,
+  status?: PrayerStatus
+): Prayer {
+  const now = new Date().toISOString()
+  const start = startTime ? startTime.toISOString() : now
+  const end = endTime ? endTime.toISOString() : undefined
+  const durationMinutes = startTime && endTime ? 
+    Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)) : undefined
+  const upcoming = getUpcomingWindow(prayerName, new Date(start), location, params)
+  if (upcoming && !status) {
+    throw new Error(`${prayerName} has not started yet`)
+  }
+  const derived = derivePrayerStatus(prayerName, new Date(start), location, params)
+
+  return {
+    id: `prayer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    prayer_name: prayerName,
+    prayer_date: upcoming ? upcoming.date : derived.prayerDate,
+    status: status || derived.status,
+    start_time: start,
+    end_time: end,
+    duration_minutes: durationMinutes,
+    logged_at: now,
+    notes: '',
+    created_at: now,
+    updated_at: now
+  }
+}
+
+// Fill in status and prayer_date for records logged before they existed
+export function normalizePrayer(prayer: Prayer, location: PrayerLocation, params: CalculationParams): Prayer {
+  if (prayer.status && prayer.prayer_date) return prayer
+
+  const { status, prayerDate } = derivePrayerStatus(
+    prayer.prayer_name,
+    new Date(prayer.start_time || prayer.logged_at),
+    location,
+    params
+  )
+  return {
+    ...prayer,
+    status: prayer.status || status,
+    prayer_date: prayer.prayer_date || prayerDate
+  }
+}
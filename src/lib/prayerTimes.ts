@@ -0,0 +1,228 @@
+import { HighLatitudeRule, PrayerLocation, PrayerTimeName, PrayerTimes, DAILY_PRAYERS } from '../types/prayer'
+import { formatTimeInZone, getZonedDateParts } from './timezone'
+import {
+  CalculationMethod,
+  CalculationParams,
+  TimeOffsets,
+  ASR_MADHABS,
+  CALCULATION_METHODS,
+  DEFAULT_CALCULATION_PARAMS
+} from './calculationMethods'
+
+// Solar position and prayer-time math, adapted from the PrayTimes.org algorithm.
+// Everything runs locally so times are available offline.
+
+// Degree-based trigonometry
+const dtr = (d: number) => (d * Math.PI) / 180
+const rtd = (r: number) => (r * 180) / Math.PI
+const sin = (d: number) => Math.sin(dtr(d))
+const cos = (d: number) => Math.cos(dtr(d))
+const tan = (d: number) => Math.tan(dtr(d))
+const arcsin = (x: number) => rtd(Math.asin(x))
+const arccos = (x: number) => rtd(Math.acos(x))
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x))
+const arccot = (x: number) => rtd(Math.atan(1 / x))
+
+const fix = (a: number, b: number) => {
+  const result = a - b * Math.floor(a / b)
+  return result < 0 ? result + b : result
+}
+const fixAngle = (a: number) => fix(a, 360)
+const fixHour = (a: number) => fix(a, 24)
+
+const julianDate = (year: number, month: number, day: number) => {
+  if (month <= 2) {
+    year -= 1
+    month += 12
+  }
+  const a = Math.floor(year / 100)
+  const b = 2 - a + Math.floor(a / 4)
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5
+}
+
+// Declination of the sun and equation of time for a Julian date
+const sunPosition = (jd: number) => {
+  const d = jd - 2451545.0
+  const g = fixAngle(357.529 + 0.98560028 * d)
+  const q = fixAngle(280.459 + 0.98564736 * d)
+  const l = fixAngle(q + 1.915 * sin(g) + 0.020 * sin(2 * g))
+  const e = 23.439 - 0.00000036 * d
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fixHour(ra)
+  }
+}
+
+type SolarTimes = Record<PrayerTimeName, number>
+
+// Estimates (hours, local solar time) that seed the calculation
+const INITIAL_TIMES: SolarTimes = {
+  fajr: 5,
+  sunrise: 6,
+  dhuhr: 12,
+  asr: 13,
+  sunset: 18,
+  maghrib: 18,
+  isha: 18
+}
+
+const computeSolarTimes = (
+  jDate: number,
+  latitude: number,
+  elevation: number,
+  method: CalculationMethod,
+  asrFactor: number
+): SolarTimes => {
+  const midDay = (time: number) => fixHour(12 - sunPosition(jDate + time).equation)
+
+  // Hours from midnight when the sun reaches `angle` below the horizon
+  const sunAngleTime = (angle: number, time: number, ccw: boolean = false) => {
+    const declination = sunPosition(jDate + time).declination
+    const noon = midDay(time)
+    const t = arccos((-sin(angle) - sin(declination) * sin(latitude)) /
+      (cos(declination) * cos(latitude))) / 15
+    return noon + (ccw ? -t : t)
+  }
+
+  const asrTime = (factor: number, time: number) => {
+    const declination = sunPosition(jDate + time).declination
+    const angle = -arccot(factor + tan(Math.abs(latitude - declination)))
+    return sunAngleTime(angle, time)
+  }
+
+  const riseSetAngle = 0.833 + 0.0347 * Math.sqrt(Math.max(elevation, 0))
+  const t = Object.fromEntries(
+    Object.entries(INITIAL_TIMES).map(([name, hours]) => [name, hours / 24])
+  ) as SolarTimes
+
+  const sunset = sunAngleTime(riseSetAngle, t.sunset)
+  const maghrib = 'angle' in method.maghrib
+    ? sunAngleTime(method.maghrib.angle, t.maghrib)
+    : sunset + method.maghrib.minutes / 60
+  const isha = 'angle' in method.isha
+    ? sunAngleTime(method.isha.angle, t.isha)
+    : maghrib + method.isha.minutes / 60
+
+  return {
+    fajr: sunAngleTime(method.fajrAngle, t.fajr, true),
+    sunrise: sunAngleTime(riseSetAngle, t.sunrise, true),
+    dhuhr: midDay(t.dhuhr),
+    asr: asrTime(asrFactor, t.asr),
+    sunset,
+    maghrib,
+    isha
+  }
+}
+
+// Hours from t1 forward to t2
+const timeDiff = (t1: number, t2: number) => fixHour(t2 - t1)
+
+/**
+ * Near the poles twilight may never end, or Fajr/Isha may land absurdly far
+ * into the night. Cap them at a portion of the night measured from sunrise
+ * and sunset, and report which times were replaced.
+ */
+const adjustHighLatitudes = (
+  times: SolarTimes,
+  method: CalculationMethod,
+  rule: HighLatitudeRule
+): PrayerTimeName[] => {
+  if (rule === 'none') return []
+
+  const night = timeDiff(times.sunset, times.sunrise)
+  const nightPortion = (angle: number) => {
+    switch (rule) {
+      case 'angleBased':
+        return (angle / 60) * night
+      case 'oneSeventh':
+        return night / 7
+      default:
+        return night / 2
+    }
+  }
+
+  const adjusted: PrayerTimeName[] = []
+
+  const fajrPortion = nightPortion(method.fajrAngle)
+  if (isNaN(times.fajr) || timeDiff(times.fajr, times.sunrise) > fajrPortion) {
+    times.fajr = times.sunrise - fajrPortion
+    adjusted.push('fajr')
+  }
+
+  if ('angle' in method.isha) {
+    const ishaPortion = nightPortion(method.isha.angle)
+    if (isNaN(times.isha) || timeDiff(times.sunset, times.isha) > ishaPortion) {
+      times.isha = times.sunset + ishaPortion
+      adjusted.push('isha')
+    }
+  }
+
+  return adjusted
+}
+
+const applyOffsets = (times: SolarTimes, offsets: TimeOffsets) => {
+  for (const [name, minutes] of Object.entries(offsets) as [PrayerTimeName, number][]) {
+    if (name in times && minutes) {
+      times[name] += minutes / 60
+    }
+  }
+}
+
+/**
+ * Compute the day's prayer times for a location. `date` is any instant on the
+ * wanted day; the calendar date is taken in the location's timezone. Times that
+ * do not occur (e.g. no astronomical twilight) come back as invalid dates.
+ */
+export function calculatePrayerTimes(
+  date: Date,
+  location: PrayerLocation,
+  params: CalculationParams = DEFAULT_CALCULATION_PARAMS
+): PrayerTimes {
+  const { year, month, day } = getZonedDateParts(date, location.timezone)
+  const jDate = julianDate(year, month, day) - location.longitude / (15 * 24)
+  const method = CALCULATION_METHODS[params.method] || CALCULATION_METHODS[DEFAULT_CALCULATION_PARAMS.method]
+  const solarTimes = computeSolarTimes(
+    jDate,
+    location.latitude,
+    location.elevation || 0,
+    method,
+    ASR_MADHABS[params.madhab]?.shadowFactor || 1
+  )
+  const adjusted = adjustHighLatitudes(solarTimes, method, params.highLatitudeRule || 'none')
+  applyOffsets(solarTimes, params.offsets || {})
+
+  // Solar hours -> UTC instants on the local calendar date
+  const utcMidnight = Date.UTC(year, month - 1, day)
+  const toDate = (hours: number) => {
+    if (isNaN(hours)) return new Date(NaN)
+    const utcHours = hours - location.longitude / 15
+    return new Date(Math.round((utcMidnight + utcHours * 3600000) / 60000) * 60000)
+  }
+
+  return {
+    date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    fajr: toDate(solarTimes.fajr),
+    sunrise: toDate(solarTimes.sunrise),
+    dhuhr: toDate(solarTimes.dhuhr),
+    asr: toDate(solarTimes.asr),
+    sunset: toDate(solarTimes.sunset),
+    maghrib: toDate(solarTimes.maghrib),
+    isha: toDate(solarTimes.isha),
+    adjusted
+  }
+}
+
+// Adhan time of a named daily prayer, e.g. getPrayerTime(times, 'Asr')
+export function getPrayerTime(times: PrayerTimes, prayerName: string): Date | undefined {
+  const prayer = DAILY_PRAYERS.find(p => p.name === prayerName)
+  return prayer ? times[prayer.key] : undefined
+}
+
+// "HH:MM" adhan times keyed by prayer name, as used by reminders
+export function getReminderTimes(times: PrayerTimes, timezone: string): Record<string, string> {
+  return Object.fromEntries(
+    DAILY_PRAYERS.map(prayer => [prayer.name, formatTimeInZone(times[prayer.key], timezone, false)])
+  )
+}
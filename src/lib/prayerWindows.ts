@@ -0,0 +1,89 @@
+import { PrayerLocation, PrayerTimes, DAILY_PRAYERS } from '../types/prayer'
+import { CalculationParams } from './calculationMethods'
+import { calculatePrayerTimes } from './prayerTimes'
+import { getDateKey, zonedTimeToDate } from './timezone'
+
+export interface PrayerWindow {
+  name: string
+  date: string // The day the prayer belongs to, "yyyy-MM-dd"
+  start: Date // Adhan
+  end: Date // Start of the next obligatory time (or sunrise for Fajr)
+}
+
+export interface PrayerClock {
+  today: PrayerTimes
+  current: PrayerWindow | null // null between sunrise and Dhuhr
+  next: { name: string, time: Date }
+}
+
+const isValid = (date: Date) => !isNaN(date.getTime())
+
+// Prayer times for the calendar day `days` away from the given one
+export function getAdjacentPrayerTimes(
+  times: PrayerTimes,
+  days: number,
+  location: PrayerLocation,
+  params: CalculationParams
+): PrayerTimes {
+  // Dhuhr sits near solar noon, so +/-24h always lands on the neighbouring date
+  const reference = new Date(times.dhuhr.getTime() + days * 24 * 60 * 60 * 1000)
+  return calculatePrayerTimes(reference, location, params)
+}
+
+export function getDailyWindows(times: PrayerTimes, nextDay: PrayerTimes): PrayerWindow[] {
+  const windows: PrayerWindow[] = [
+    { name: 'Fajr', date: times.date, start: times.fajr, end: times.sunrise },
+    { name: 'Dhuhr', date: times.date, start: times.dhuhr, end: times.asr },
+    { name: 'Asr', date: times.date, start: times.asr, end: times.maghrib },
+    { name: 'Maghrib', date: times.date, start: times.maghrib, end: times.isha },
+    { name: 'Isha', date: times.date, start: times.isha, end: nextDay.fajr }
+  ]
+  return windows.filter(window => isValid(window.start) && isValid(window.end))
+}
+
+// The window containing `now` and the next adhan after it
+export function getPrayerClock(now: Date, location: PrayerLocation, params: CalculationParams): PrayerClock {
+  const today = calculatePrayerTimes(now, location, params)
+  const yesterday = getAdjacentPrayerTimes(today, -1, location, params)
+  const tomorrow = getAdjacentPrayerTimes(today, 1, location, params)
+
+  // Yesterday's evening runs past midnight: always Isha, and Maghrib too where
+  // Isha begins after midnight (high latitudes in summer)
+  const windows = [
+    ...getDailyWindows(yesterday, today).filter(window => window.name === 'Maghrib' || window.name === 'Isha'),
+    ...getDailyWindows(today, tomorrow)
+  ]
+  const current = windows.find(window => now >= window.start && now < window.end) || null
+
+  const upcoming = [
+    { name: 'Isha', time: yesterday.isha },
+    ...DAILY_PRAYERS.map(prayer => ({ name: prayer.name, time: today[prayer.key] })),
+    ...DAILY_PRAYERS.map(prayer => ({ name: prayer.name, time: tomorrow[prayer.key] }))
+  ].filter(adhan => isValid(adhan.time) && adhan.time > now)
+
+  return {
+    today,
+    current,
+    next: upcoming[0] || { name: 'Fajr', time: tomorrow.fajr }
+  }
+}
+
+// The window of one prayer on a given day ("yyyy-MM-dd"), if its times can be computed there
+export function getPrayerWindow(
+  prayerName: string,
+  dateKey: string,
+  location: PrayerLocation,
+  params: CalculationParams
+): PrayerWindow | undefined {
+  const times = calculatePrayerTimes(zonedTimeToDate(dateKey, '12:00', location.timezone), location, params)
+  const nextDay = getAdjacentPrayerTimes(times, 1, location, params)
+  return getDailyWindows(times, nextDay).find(window => window.name === prayerName)
+}
+
+// When a prayer of this window was performed at wall-clock `time` ("HH:mm"). A time
+// before the adhan is read as the next morning, so Isha at 00:30 stays with its evening.
+export function getPerformedAt(window: PrayerWindow, time: string, timezone: string): Date {
+  const sameDay = zonedTimeToDate(window.date, time, timezone)
+  if (sameDay >= window.start) return sameDay
+  return zonedTimeToDate(getDateKey(window.end, timezone), time, timezone)
+}
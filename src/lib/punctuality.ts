@@ -0,0 +1,99 @@
+import { Prayer, PrayerLocation, PrayerPunctuality, PunctualityBucket, PunctualityWeek, DAILY_PRAYERS } from '../types/prayer'
+import { CalculationParams } from './calculationMethods'
+import { isPrayerPerformed } from './prayerStatus'
+import { PrayerWindow, getPrayerWindow } from './prayerWindows'
+import { getWeekStartKey, shiftDateKey } from './timezone'
+
+export const PUNCTUALITY_BUCKETS: Record<PunctualityBucket, { label: string, color: string }> = {
+  first_15: { label: 'First 15 min', color: 'bg-green-600' },
+  first_half: { label: 'First half', color: 'bg-green-400' },
+  late: { label: 'Late', color: 'bg-yellow-500' },
+  qada: { label: 'Qada', color: 'bg-orange-500' }
+}
+
+const FIRST_MINUTES = 15
+
+const emptyBuckets = (): Record<PunctualityBucket, number> => ({ first_15: 0, first_half: 0, late: 0, qada: 0 })
+
+export interface PrayerDelay {
+  prayer: Prayer
+  delay: number // Minutes after the adhan
+  bucket: PunctualityBucket
+}
+
+export function getPunctualityBucket(delay: number, window: PrayerWindow): PunctualityBucket {
+  const windowMinutes = (window.end.getTime() - window.start.getTime()) / 60000
+  if (delay >= windowMinutes) return 'qada'
+  if (delay < FIRST_MINUTES) return 'first_15'
+  return delay < windowMinutes / 2 ? 'first_half' : 'late'
+}
+
+/**
+ * Minutes from the adhan to `start_time` for each performed prayer. Windows are
+ * computed once per day; prayers whose day has no computable window are left out.
+ */
+export function getPrayerDelays(prayers: Prayer[], location: PrayerLocation, params: CalculationParams): PrayerDelay[] {
+  const windows = new Map<string, PrayerWindow | undefined>()
+  const delays: PrayerDelay[] = []
+
+  prayers.filter(isPrayerPerformed).forEach(prayer => {
+    const key = `${prayer.prayer_date}|${prayer.prayer_name}`
+    if (!windows.has(key)) {
+      windows.set(key, getPrayerWindow(prayer.prayer_name, prayer.prayer_date, location, params))
+    }
+    const window = windows.get(key)
+    if (!window) return
+
+    // A time before the adhan (e.g. logged from an early reminder) counts as at the adhan
+    const delay = Math.max(0, (Date.parse(prayer.start_time) - window.start.getTime()) / 60000)
+    delays.push({ prayer, delay, bucket: getPunctualityBucket(delay, window) })
+  })
+
+  return delays
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  return Math.round(value)
+}
+
+// Qada is counted in its bucket but kept out of the median, where one made-up prayer would swamp the rest
+function summarize(delays: PrayerDelay[]) {
+  const buckets = emptyBuckets()
+  delays.forEach(({ bucket }) => {
+    buckets[bucket] += 1
+  })
+  return {
+    medianDelay: median(delays.filter(({ bucket }) => bucket !== 'qada').map(({ delay }) => delay)),
+    buckets,
+    total: delays.length
+  }
+}
+
+export function getPrayerPunctuality(delays: PrayerDelay[]): PrayerPunctuality[] {
+  return DAILY_PRAYERS.map(({ name }) => ({
+    prayer_name: name,
+    ...summarize(delays.filter(({ prayer }) => prayer.prayer_name === name))
+  }))
+}
+
+// One entry per week ending with the week of `today`, including weeks with nothing logged
+export function getPunctualityTrend(
+  delays: PrayerDelay[],
+  today: string,
+  weeks: number = 8,
+  weekStartsOn: number = 0
+): PunctualityWeek[] {
+  const currentWeek = getWeekStartKey(today, weekStartsOn)
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = shiftDateKey(currentWeek, -7 * (weeks - 1 - i))
+    const weekEnd = shiftDateKey(weekStart, 6)
+    return {
+      weekStart,
+      ...summarize(delays.filter(({ prayer }) => prayer.prayer_date >= weekStart && prayer.prayer_date <= weekEnd))
+    }
+  })
+}
@@ -0,0 +1,107 @@
+import { addDays, differenceInCalendarMonths } from 'date-fns'
+import { Prayer, QadaBacklog, QadaBalance, QadaRepayment } from '../types/prayer'
+import { isPrayerPerformed } from './prayerStatus'
+
+export interface QadaPlanEntry {
+  prayer_name: string
+  remaining: number
+  daily_target: number
+  days: number | null // null when nothing is scheduled for a prayer still owed
+  completionDate: Date | null
+}
+
+export interface QadaPlan {
+  entries: QadaPlanEntry[]
+  days: number | null
+  completionDate: Date | null
+}
+
+/**
+ * Count prayers marked missed, per prayer name. A missed record is ignored when
+ * the same prayer of the same day was also logged as performed, e.g. made up as
+ * qada later that week.
+ */
+export function countMissedPrayers(prayers: Prayer[]): Record<string, number> {
+  const performed = new Set(
+    prayers.filter(isPrayerPerformed).map(p => `${p.prayer_date}|${p.prayer_name}`)
+  )
+  const missed = new Set(
+    prayers
+      .filter(p => p.status === 'missed')
+      .map(p => `${p.prayer_date}|${p.prayer_name}`)
+      .filter(key => !performed.has(key))
+  )
+
+  const counts: Record<string, number> = {}
+  missed.forEach(key => {
+    const prayerName = key.split('|')[1]
+    counts[prayerName] = (counts[prayerName] || 0) + 1
+  })
+  return counts
+}
+
+export function getQadaBalance(
+  backlog: QadaBacklog,
+  missedCounts: Record<string, number>,
+  repayments: QadaRepayment[]
+): QadaBalance {
+  const accrueMissed = Number(backlog.accrue_missed) === 1
+  const accrued = accrueMissed ? missedCounts[backlog.prayer_name] || 0 : 0
+  const repaid = repayments
+    .filter(r => r.prayer_name === backlog.prayer_name)
+    .reduce((sum, r) => sum + r.count, 0)
+
+  return {
+    prayer_name: backlog.prayer_name,
+    estimated: backlog.estimated_count,
+    accrued,
+    repaid,
+    remaining: Math.max(0, backlog.estimated_count + accrued - repaid),
+    accrue_missed: accrueMissed,
+    daily_target: backlog.daily_target
+  }
+}
+
+// Project when each balance is cleared at its daily target, starting tomorrow
+export function buildRepaymentPlan(balances: QadaBalance[], from: Date = new Date()): QadaPlan {
+  const entries = balances.map(balance => {
+    let days: number | null = null
+    if (balance.remaining === 0) {
+      days = 0
+    } else if (balance.daily_target > 0) {
+      days = Math.ceil(balance.remaining / balance.daily_target)
+    }
+
+    return {
+      prayer_name: balance.prayer_name,
+      remaining: balance.remaining,
+      daily_target: balance.daily_target,
+      days,
+      completionDate: days === null ? null : addDays(from, days)
+    }
+  })
+
+  const owed = entries.filter(entry => entry.remaining > 0)
+  const unscheduled = owed.some(entry => entry.days === null)
+  const days = unscheduled ? null : Math.max(0, ...owed.map(entry => entry.days || 0))
+
+  return {
+    entries,
+    days,
+    completionDate: days === null ? null : addDays(from, days)
+  }
+}
+
+// "12 days", "14 months", "2 years 3 months"
+export function describePlanLength(days: number, from: Date = new Date()): string {
+  if (days < 60) return `${days} ${days === 1 ? 'day' : 'days'}`
+
+  const months = Math.max(1, differenceInCalendarMonths(addDays(from, days), from))
+  if (months < 24) return `${months} months`
+
+  const years = Math.floor(months / 12)
+  const remainder = months % 12
+  return remainder > 0
+    ? `${years} years ${remainder} ${remainder === 1 ? 'month' : 'months'}`
+    : `${years} years`
+}
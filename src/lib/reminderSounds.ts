@@ -0,0 +1,112 @@
+import { PrayerSettings, ReminderSound, DAILY_PRAYERS } from '../types/prayer'
+import { ScheduledReminder, getReminderAnchor } from './reminders'
+
+// Recordings in src/assets/audio (see the README there), by file name, resolved to their built URLs
+const BUNDLED_RECORDINGS = import.meta.glob('../assets/audio/*.mp3', {
+  eager: true,
+  query: '?url',
+  import: 'default'
+}) as Record<string, string>
+
+const recording = (file: string) => ({ file, src: BUNDLED_RECORDINGS[`../assets/audio/${file}`] })
+
+/**
+ * Sounds a reminder can play in the app. A recording is only offered once its
+ * file is bundled; one that fails to load still falls back to the beep, which
+ * is synthesized and always available.
+ */
+export const REMINDER_SOUNDS: Record<ReminderSound, { name: string, description: string, file?: string, src?: string }> = {
+  adhan_makkah: {
+    name: 'Adhan (Makkah)',
+    description: 'Full adhan as called in Masjid al-Haram',
+    ...recording('adhan-makkah.mp3')
+  },
+  adhan_madinah: {
+    name: 'Adhan (Madinah)',
+    description: 'Full adhan as called in Masjid an-Nabawi',
+    ...recording('adhan-madinah.mp3')
+  },
+  adhan_fajr: {
+    name: 'Fajr adhan',
+    description: 'Adhan with "as-salatu khayrun min an-nawm"',
+    ...recording('adhan-fajr.mp3')
+  },
+  takbir: {
+    name: 'Takbir',
+    description: 'The opening "Allahu akbar" only, a few seconds long',
+    ...recording('takbir.mp3')
+  },
+  beep: {
+    name: 'Beep',
+    description: 'A short chime'
+  },
+  silent: {
+    name: 'Silent',
+    description: 'No sound in the app'
+  }
+}
+
+export const isRecording = (sound: ReminderSound): boolean => !!REMINDER_SOUNDS[sound].src
+
+// Synthesized sounds, and recordings whose file is bundled
+export const isSoundAvailable = (sound: ReminderSound): boolean =>
+  !REMINDER_SOUNDS[sound].file || isRecording(sound)
+
+export const AVAILABLE_SOUNDS = (Object.keys(REMINDER_SOUNDS) as ReminderSound[]).filter(isSoundAvailable)
+
+// Fade-in only applies to recordings, so its setting is shown once one is bundled
+export const HAS_RECORDINGS = AVAILABLE_SOUNDS.some(isRecording)
+
+const orBeep = (sound: ReminderSound): ReminderSound => isSoundAvailable(sound) ? sound : 'beep'
+
+export interface AudioPolicy {
+  sounds: Record<string, ReminderSound> // Keyed by prayer name
+  volume: number // 0 ... 100
+  fadeInSeconds: number
+}
+
+export const DEFAULT_AUDIO_POLICY: AudioPolicy = {
+  sounds: Object.fromEntries(DAILY_PRAYERS.map(({ name }) => [
+    name,
+    orBeep(name === 'Fajr' ? 'adhan_fajr' : 'adhan_makkah')
+  ])),
+  volume: 80,
+  fadeInSeconds: 5
+}
+
+export const MAX_FADE_IN_SECONDS = 30
+
+export function parseReminderSounds(value: string | undefined): Record<string, ReminderSound> {
+  try {
+    const parsed = value ? JSON.parse(value) : {}
+    const chosen = Object.entries(parsed as Record<string, ReminderSound>)
+      .filter(([, sound]) => REMINDER_SOUNDS[sound] && isSoundAvailable(sound))
+    return { ...DEFAULT_AUDIO_POLICY.sounds, ...Object.fromEntries(chosen) }
+  } catch {
+    return DEFAULT_AUDIO_POLICY.sounds
+  }
+}
+
+export function toAudioPolicy(settings: PrayerSettings | null): AudioPolicy {
+  if (!settings) return DEFAULT_AUDIO_POLICY
+  return {
+    sounds: parseReminderSounds(settings.reminder_sounds),
+    volume: Math.max(0, Math.min(100, settings.reminder_volume ?? DEFAULT_AUDIO_POLICY.volume)),
+    fadeInSeconds: Math.max(0, Math.min(MAX_FADE_IN_SECONDS, settings.reminder_fade_in ?? DEFAULT_AUDIO_POLICY.fadeInSeconds))
+  }
+}
+
+/**
+ * The sound for one reminder. The full adhan only plays at the adhan itself;
+ * reminders before or after it play the takbir, and follow-ups always beep so
+ * their escalation can be heard.
+ */
+export function getReminderSound(scheduled: ScheduledReminder, policy: AudioPolicy): ReminderSound {
+  const sound = policy.sounds[scheduled.reminder.prayer_name] || 'beep'
+  if (sound === 'silent') return sound
+  if (scheduled.followUp) return 'beep'
+
+  const { reminder } = scheduled
+  const atAdhan = getReminderAnchor(reminder) === 'adhan' && (reminder.offset_minutes || 0) === 0
+  return sound.startsWith('adhan_') && !atAdhan ? orBeep('takbir') : sound
+}
@@ -0,0 +1,236 @@
+import {
+  FollowUpAnchor,
+  FollowUpStep,
+  Prayer,
+  PrayerLocation,
+  PrayerReminder,
+  PrayerSettings,
+  ReminderAnchor,
+  DAILY_PRAYERS
+} from '../types/prayer'
+import { CalculationParams } from './calculationMethods'
+import { PrayerWindow, getPrayerWindow } from './prayerWindows'
+import { getDateKey, shiftDateKey, zonedTimeToDate } from './timezone'
+
+export const REMINDER_ANCHORS: Record<ReminderAnchor, { name: string, description: string }> = {
+  absolute: {
+    name: 'At a set time',
+    description: 'The same clock time every day'
+  },
+  adhan: {
+    name: 'Relative to the adhan',
+    description: 'Follows the computed prayer time as it moves through the year'
+  },
+  window_end: {
+    name: 'Relative to the window end',
+    description: 'Counts back from when the prayer time runs out'
+  }
+}
+
+export const FOLLOW_UP_ANCHORS: Record<FollowUpAnchor, { name: string, unit: string, max: number }> = {
+  window_progress: { name: 'Through the window', unit: '%', max: 95 },
+  window_end: { name: 'Before the window ends', unit: 'min', max: 180 }
+}
+
+// Halfway through the window, then 15 minutes before it ends
+export const DEFAULT_FOLLOW_UP_STEPS: FollowUpStep[] = [
+  { anchor: 'window_progress', value: 50 },
+  { anchor: 'window_end', value: 15 }
+]
+
+export const MAX_FOLLOW_UP_STEPS = 4
+
+// A follow-up's place in the escalation; the last one is the most urgent
+export interface FollowUpLevel {
+  step: number // 1-based
+  of: number
+  windowEnd: Date
+}
+
+export interface ScheduledReminder {
+  reminder: PrayerReminder
+  date: string // Prayer day the reminder belongs to, "yyyy-MM-dd"
+  at: Date
+  followUp?: FollowUpLevel // Set on follow-ups, which are only sent while the prayer isn't logged
+}
+
+export function parseFollowUpSteps(value: string | undefined): FollowUpStep[] {
+  if (value === undefined) return DEFAULT_FOLLOW_UP_STEPS
+  try {
+    const parsed = JSON.parse(value)
+    if (!Array.isArray(parsed)) return DEFAULT_FOLLOW_UP_STEPS
+    return parsed
+      .filter(step => FOLLOW_UP_ANCHORS[step?.anchor as FollowUpAnchor] && typeof step.value === 'number')
+      .slice(0, MAX_FOLLOW_UP_STEPS)
+      .map(step => ({
+        anchor: step.anchor,
+        value: Math.max(step.anchor === 'window_progress' ? 5 : 1, Math.min(FOLLOW_UP_ANCHORS[step.anchor as FollowUpAnchor].max, Math.round(step.value)))
+      }))
+  } catch {
+    return DEFAULT_FOLLOW_UP_STEPS
+  }
+}
+
+export const toFollowUpSteps = (settings: PrayerSettings | null): FollowUpStep[] =>
+  parseFollowUpSteps(settings?.follow_up_steps)
+
+// e.g. "Halfway through the window" or "15 minutes before the window ends"
+export function describeFollowUpStep(step: FollowUpStep): string {
+  if (step.anchor === 'window_progress') {
+    return step.value === 50 ? 'Halfway through the window' : `${step.value}% of the way through the window`
+  }
+  return `${step.value} ${step.value === 1 ? 'minute' : 'minutes'} before the window ends`
+}
+
+const resolveFollowUpStep = (step: FollowUpStep, window: PrayerWindow): Date => step.anchor === 'window_progress'
+  ? new Date(window.start.getTime() + (window.end.getTime() - window.start.getTime()) * step.value / 100)
+  : new Date(window.end.getTime() - step.value * 60000)
+
+// Prayers already logged (performed or not), keyed by `${prayer_date}:${prayer_name}`
+export const getLoggedPrayerKeys = (prayers: Prayer[]): Set<string> =>
+  new Set(prayers.filter(prayer => !prayer.deleted_at).map(prayer => `${prayer.prayer_date}:${prayer.prayer_name}`))
+
+export const isReminderResolved = (scheduled: ScheduledReminder, logged: Set<string>): boolean =>
+  !!scheduled.followUp && logged.has(`${scheduled.date}:${scheduled.reminder.prayer_name}`)
+
+export const getReminderAnchor = (reminder: PrayerReminder): ReminderAnchor =>
+  reminder.anchor && REMINDER_ANCHORS[reminder.anchor] ? reminder.anchor : 'absolute'
+
+// ISO weekday of a "yyyy-MM-dd" date, 1 = Monday ... 7 = Sunday, as in `days_of_week`
+const getIsoWeekday = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7
+}
+
+// e.g. "10 minutes before the Asr adhan" or "At 05:30"
+export function describeReminder(reminder: PrayerReminder): string {
+  const anchor = getReminderAnchor(reminder)
+  if (anchor === 'absolute') return `At ${reminder.reminder_time}`
+
+  const offset = reminder.offset_minutes || 0
+  const event = anchor === 'adhan' ? `the ${reminder.prayer_name} adhan` : `the ${reminder.prayer_name} window ends`
+  if (offset === 0) return anchor === 'adhan' ? `At ${event}` : `When ${event}`
+  const minutes = `${Math.abs(offset)} ${Math.abs(offset) === 1 ? 'minute' : 'minutes'}`
+  return `${minutes} ${offset < 0 ? 'before' : 'after'} ${event}`
+}
+
+/**
+ * When a reminder fires for one prayer day, resolved from that day's computed
+ * prayer times. Returns null when the reminder is off that weekday or the
+ * prayer time can't be computed (e.g. Isha at extreme latitudes without a rule).
+ */
+export function resolveReminder(
+  reminder: PrayerReminder,
+  dateKey: string,
+  location: PrayerLocation,
+  params: CalculationParams
+): Date | null {
+  const days = reminder.days_of_week.split(',').map(day => parseInt(day))
+  if (!days.includes(getIsoWeekday(dateKey))) return null
+
+  const anchor = getReminderAnchor(reminder)
+  if (anchor === 'absolute') {
+    return reminder.reminder_time ? zonedTimeToDate(dateKey, reminder.reminder_time, location.timezone) : null
+  }
+
+  const window = getPrayerWindow(reminder.prayer_name, dateKey, location, params)
+  if (!window) return null
+  const anchorTime = anchor === 'adhan' ? window.start : window.end
+  return new Date(anchorTime.getTime() + (reminder.offset_minutes || 0) * 60000)
+}
+
+/**
+ * Follow-ups of one prayer day: for each prayer with a reminder that day, the
+ * steps that fall after its first reminder and before its window ends. Each
+ * carries that first reminder, so notification actions work on it too.
+ */
+export function getFollowUps(
+  reminders: PrayerReminder[],
+  dateKey: string,
+  location: PrayerLocation,
+  params: CalculationParams,
+  steps: FollowUpStep[]
+): ScheduledReminder[] {
+  if (steps.length === 0) return []
+
+  const schedule = getReminderSchedule(reminders, dateKey, location, params)
+  return DAILY_PRAYERS.flatMap(({ name }) => {
+    const first = schedule.find(scheduled => scheduled.reminder.prayer_name === name)
+    const window = first && getPrayerWindow(name, dateKey, location, params)
+    if (!first || !window) return []
+
+    const times = [...new Set(steps.map(step => resolveFollowUpStep(step, window).getTime()))]
+      .filter(time => time > first.at.getTime() && time < window.end.getTime())
+      .sort((a, b) => a - b)
+    return times.map((time, index) => ({
+      reminder: first.reminder,
+      date: dateKey,
+      at: new Date(time),
+      followUp: { step: index + 1, of: times.length, windowEnd: window.end }
+    }))
+  })
+}
+
+// Every enabled reminder of one prayer day, plus follow-ups when `steps` are given, in firing order
+export function getReminderSchedule(
+  reminders: PrayerReminder[],
+  dateKey: string,
+  location: PrayerLocation,
+  params: CalculationParams,
+  steps: FollowUpStep[] = []
+): ScheduledReminder[] {
+  const scheduled = reminders
+    .filter(reminder => Number(reminder.is_enabled) === 1)
+    .map(reminder => ({ reminder, date: dateKey, at: resolveReminder(reminder, dateKey, location, params) }))
+    .filter((scheduled): scheduled is ScheduledReminder => scheduled.at !== null)
+  return [...scheduled, ...getFollowUps(reminders, dateKey, location, params, steps)]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+/**
+ * Reminders, and follow-ups for `steps`, that fire in (from, until], in firing
+ * order. The prayer day before `from` is included because an offset or Isha's
+ * window end can move a reminder past midnight, and the day after `until` for
+ * negative offsets.
+ */
+export function getRemindersBetween(
+  reminders: PrayerReminder[],
+  from: Date,
+  until: Date,
+  location: PrayerLocation,
+  params: CalculationParams,
+  steps: FollowUpStep[] = []
+): ScheduledReminder[] {
+  const last = shiftDateKey(getDateKey(until, location.timezone), 1)
+  const scheduled: ScheduledReminder[] = []
+  for (let dateKey = shiftDateKey(getDateKey(from, location.timezone), -1); dateKey <= last; dateKey = shiftDateKey(dateKey, 1)) {
+    scheduled.push(...getReminderSchedule(reminders, dateKey, location, params, steps))
+  }
+  return scheduled
+    .filter(({ at }) => at > from && at <= until)
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+// Notification title, e.g. "Asr in 10 minutes" or "Isha time ends in 30 minutes"
+export function getReminderTitle(reminder: PrayerReminder): string {
+  const anchor = getReminderAnchor(reminder)
+  const offset = reminder.offset_minutes || 0
+  const minutes = `${Math.abs(offset)} ${Math.abs(offset) === 1 ? 'minute' : 'minutes'}`
+  if (anchor === 'window_end') {
+    return offset < 0 ? `${reminder.prayer_name} time ends in ${minutes}` : `${reminder.prayer_name} time has ended`
+  }
+  if (anchor === 'adhan' && offset < 0) {
+    return `${reminder.prayer_name} in ${minutes}`
+  }
+  return `Time for ${reminder.prayer_name} Prayer`
+}
+
+// Daily prayers first in their order of the day, then each prayer's reminders by anchor and offset
+export function compareReminders(a: PrayerReminder, b: PrayerReminder): number {
+  const prayerIndex = (reminder: PrayerReminder) => DAILY_PRAYERS.findIndex(prayer => prayer.name === reminder.prayer_name)
+  const anchors = Object.keys(REMINDER_ANCHORS)
+  return prayerIndex(a) - prayerIndex(b)
+    || anchors.indexOf(getReminderAnchor(a)) - anchors.indexOf(getReminderAnchor(b))
+    || (a.offset_minutes || 0) - (b.offset_minutes || 0)
+    || a.reminder_time.localeCompare(b.reminder_time)
+}
@@ -0,0 +1,159 @@
+import { format, parseISO } from 'date-fns'
+import {
+  Prayer,
+  PrayerStatus,
+  QadaBalance,
+  RateMetric,
+  StatsRange,
+  StreakDay,
+  StreakDayOutcome,
+  DAILY_PRAYERS
+} from '../types/prayer'
+import { getCompletionMetrics, getPrayerCompletion } from './chartStats'
+import { HeatmapDay, buildHeatmap } from './heatmap'
+import { getHijriMonth } from './hijri'
+import { isPrayerPerformed } from './prayerStatus'
+import { shiftDateKey } from './timezone'
+
+export type ReportPeriod = 'hijri_month' | 'month' | 'year'
+
+export const REPORT_PERIODS: Record<ReportPeriod, { label: string }> = {
+  hijri_month: { label: 'Islamic month' },
+  month: { label: 'Month' },
+  year: { label: 'Year' }
+}
+
+// Notes shown in the highlights section, newest first
+const MAX_NOTE_HIGHLIGHTS = 20
+
+export interface ReportRange extends StatsRange {
+  label: string // e.g. "Ramadan 1447 AH" or "March 2026"
+}
+
+// The whole period containing `dateKey`, including days still to come
+export function getReportRange(period: ReportPeriod, dateKey: string): ReportRange {
+  if (period === 'hijri_month') {
+    return getHijriMonth(dateKey)
+  }
+  if (period === 'month') {
+    const from = `${dateKey.slice(0, 7)}-01`
+    const nextMonth = shiftDateKey(from, 31).slice(0, 7)
+    return { from, to: shiftDateKey(`${nextMonth}-01`, -1), label: format(parseISO(from), 'MMMM yyyy') }
+  }
+  const year = dateKey.slice(0, 4)
+  return { from: `${year}-01-01`, to: `${year}-12-31`, label: year }
+}
+
+// The period before or after `range`
+export function shiftReportRange(period: ReportPeriod, range: ReportRange, direction: -1 | 1): ReportRange {
+  return getReportRange(period, direction < 0 ? shiftDateKey(range.from, -1) : shiftDateKey(range.to, 1))
+}
+
+export interface PrayerReportRow {
+  prayer_name: string
+  completion: RateMetric
+  statusCounts: Record<PrayerStatus, number>
+  averageDuration: number | null // Minutes, over timed prayers
+}
+
+export interface PrayerReport {
+  range: ReportRange
+  generatedAt: string
+  summary: {
+    totalPrayers: number
+    prayerCompletion: RateMetric
+    dayCompletion: RateMetric
+    onTimeRate: RateMetric
+    averageDuration: number | null
+  }
+  perPrayer: PrayerReportRow[]
+  heatmap: HeatmapDay[]
+  streak: {
+    days: StreakDay[] // Days of the range, oldest first
+    longest: number // Longest streak reached during the range
+    atEnd: number // Streak on the last day of the range (or today)
+    outcomes: Record<StreakDayOutcome, number>
+  }
+  qada: QadaBalance[] // Balances as of today, not just the range
+  notes: Prayer[]
+}
+
+export interface PrayerReportInputs {
+  prayers: Prayer[]
+  range: ReportRange
+  today: string
+  closedToday: string[]
+  weekStartsOn: number
+  streakDays: StreakDay[] // The whole history, oldest first
+  qadaBalances: QadaBalance[]
+}
+
+const averageDuration = (prayers: Prayer[]): number | null => {
+  const timed = prayers.filter(prayer => prayer.duration_minutes)
+  return timed.length > 0
+    ? Math.round(timed.reduce((sum, prayer) => sum + (prayer.duration_minutes || 0), 0) / timed.length)
+    : null
+}
+
+const emptyStatusCounts = (): Record<PrayerStatus, number> => ({ on_time: 0, late: 0, qada: 0, missed: 0, excused: 0 })
+
+const emptyOutcomes = (): Record<StreakDayOutcome, number> => ({
+  kept: 0,
+  excused: 0,
+  grace: 0,
+  freeze: 0,
+  broken: 0,
+  pending: 0
+})
+
+/**
+ * Everything the printable report shows for one range. Completion follows the
+ * statistics page: excused prayers aren't due and days after today don't count.
+ */
+export function buildPrayerReport(inputs: PrayerReportInputs): PrayerReport {
+  const { range, today, closedToday } = inputs
+  const prayers = inputs.prayers.filter(prayer => prayer.prayer_date >= range.from && prayer.prayer_date <= range.to)
+  const prayerCompletion = getPrayerCompletion(prayers, range, today, closedToday)
+
+  const perPrayer = DAILY_PRAYERS.map(({ name }) => {
+    const records = prayers.filter(prayer => prayer.prayer_name === name)
+    return {
+      prayer_name: name,
+      completion: prayerCompletion[name],
+      statusCounts: records.reduce((counts, prayer) => {
+        counts[prayer.status] += 1
+        return counts
+      }, emptyStatusCounts()),
+      averageDuration: averageDuration(records)
+    }
+  })
+
+  const streakDays = inputs.streakDays.filter(day => day.date >= range.from && day.date <= range.to)
+  const outcomes = emptyOutcomes()
+  streakDays.forEach(day => {
+    outcomes[day.outcome] += 1
+  })
+
+  return {
+    range,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      totalPrayers: prayers.filter(isPrayerPerformed).length,
+      ...getCompletionMetrics(prayers, range, today, closedToday),
+      averageDuration: averageDuration(prayers)
+    },
+    perPrayer,
+    heatmap: buildHeatmap(prayers, range, today, inputs.weekStartsOn),
+    streak: {
+      days: streakDays,
+      longest: streakDays.reduce((longest, day) => Math.max(longest, day.streak), 0),
+      atEnd: streakDays.length > 0 ? streakDays[streakDays.length - 1].streak : 0,
+      outcomes
+    },
+    qada: inputs.qadaBalances,
+    notes: prayers
+      .filter(prayer => prayer.notes && prayer.notes.trim() !== '')
+      .sort((a, b) => b.start_time.localeCompare(a.start_time))
+      .slice(0, MAX_NOTE_HIGHLIGHTS)
+  }
+}
@@ -0,0 +1,74 @@
+import { Prayer } from '../types/prayer'
+import { PRAYER_STATUSES } from './prayerStatus'
+import { formatTimeInZone } from './timezone'
+
+// Fields whose changes are kept in a prayer's revision history
+export const TRACKED_FIELDS: (keyof Prayer)[] = [
+  'prayer_name',
+  'prayer_date',
+  'status',
+  'start_time',
+  'end_time',
+  'duration_minutes',
+  'notes',
+  'deleted_at'
+]
+
+export type RevisionChanges = Record<string, [unknown, unknown]>
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+// Tracked fields that differ between two versions of a record, as [before, after]
+export function diffPrayer(before: Partial<Prayer>, after: Partial<Prayer>): RevisionChanges {
+  const changes: RevisionChanges = {}
+  TRACKED_FIELDS.forEach(field => {
+    const from = before[field]
+    const to = after[field]
+    if (from !== to && !(isBlank(from) && isBlank(to))) {
+      changes[field] = [isBlank(from) ? null : from, isBlank(to) ? null : to]
+    }
+  })
+  return changes
+}
+
+export function parseRevisionChanges(json: string): RevisionChanges {
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    return {}
+  }
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  prayer_name: 'Prayer',
+  prayer_date: 'Day',
+  status: 'Status',
+  start_time: 'Prayed at',
+  end_time: 'Finished at',
+  duration_minutes: 'Duration',
+  notes: 'Notes'
+}
+
+// e.g. "Status: Late → On time"; deleted_at is told by the revision's action instead
+export function describeRevisionChanges(changes: RevisionChanges, timezone: string): string[] {
+  const formatValue = (field: string, value: unknown): string => {
+    if (isBlank(value)) return 'none'
+    switch (field) {
+      case 'status':
+        return PRAYER_STATUSES[value as Prayer['status']]?.label || String(value)
+      case 'start_time':
+      case 'end_time':
+        return formatTimeInZone(new Date(String(value)), timezone)
+      case 'duration_minutes':
+        return `${value}m`
+      case 'notes':
+        return `"${value}"`
+      default:
+        return String(value)
+    }
+  }
+
+  return Object.entries(changes)
+    .filter(([field]) => field in FIELD_LABELS)
+    .map(([field, [from, to]]) => `${FIELD_LABELS[field]}: ${formatValue(field, from)} → ${formatValue(field, to)}`)
+}
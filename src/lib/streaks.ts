@@ -0,0 +1,268 @@
+import {
+  Prayer,
+  PrayerConsistency,
+  PrayerSettings,
+  PrayerStatus,
+  StreakDay,
+  StreakDayOutcome,
+  StreakMode,
+  DAILY_PRAYERS
+} from '../types/prayer'
+import { PRAYER_STATUSES } from './prayerStatus'
+import { shiftDateKey } from './timezone'
+
+export interface StreakPolicy {
+  mode: StreakMode
+  graceDaysPerMonth: number
+  freezeEvery: number // 0 = no freeze tokens
+}
+
+export const STREAK_MODES: Record<StreakMode, { name: string, description: string, statuses: PrayerStatus[] }> = {
+  on_time: {
+    name: 'On time only',
+    description: 'Every prayer must be prayed in the first half of its window',
+    statuses: ['on_time']
+  },
+  in_window: {
+    name: 'Within the window',
+    description: 'Every prayer must be prayed before its window closes',
+    statuses: ['on_time', 'late']
+  },
+  performed: {
+    name: 'Any prayer prayed',
+    description: 'Prayers made up as qada also count',
+    statuses: ['on_time', 'late', 'qada']
+  }
+}
+
+export const STREAK_OUTCOMES: Record<StreakDayOutcome, { label: string, color: string }> = {
+  kept: { label: 'Kept', color: 'bg-green-500' },
+  excused: { label: 'Excused', color: 'bg-slate-400' },
+  grace: { label: 'Grace day', color: 'bg-blue-500' },
+  freeze: { label: 'Freeze', color: 'bg-cyan-500' },
+  broken: { label: 'Broken', color: 'bg-red-500' },
+  pending: { label: 'Today', color: 'bg-yellow-500' }
+}
+
+export const DEFAULT_STREAK_POLICY: StreakPolicy = {
+  mode: 'performed',
+  graceDaysPerMonth: 0,
+  freezeEvery: 0
+}
+
+// Tokens held beyond this are not earned, so a long streak can't bank a month off
+export const MAX_FREEZE_TOKENS = 2
+
+export function toStreakPolicy(settings: PrayerSettings): StreakPolicy {
+  return {
+    mode: STREAK_MODES[settings.streak_mode] ? settings.streak_mode : DEFAULT_STREAK_POLICY.mode,
+    graceDaysPerMonth: Math.max(0, settings.streak_grace_days ?? DEFAULT_STREAK_POLICY.graceDaysPerMonth),
+    freezeEvery: Math.max(0, settings.streak_freeze_every ?? DEFAULT_STREAK_POLICY.freezeEvery)
+  }
+}
+
+export interface StreakRange {
+  from?: string // First day considered, "yyyy-MM-dd"; defaults to the first logged day
+  to: string // Last day considered, usually today in the user's timezone
+}
+
+export interface StreakSummary {
+  current: number // Kept days in a row ending at `to`
+  longest: number
+  lastKeptDate?: string
+  freezeTokens: number // Held at the end of `to`
+  days: StreakDay[] // Every day of the range, oldest first
+}
+
+const listNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+
+/**
+ * Judge one day against the policy. It is kept when every prayer counts or was
+ * excused (and at least one counts), and excused when nothing that didn't count
+ * was anything but excused. The reason says which prayers fell short and why.
+ */
+export function evaluateDay(dayPrayers: Prayer[], mode: StreakMode): { kept: boolean, excused: boolean, reason: string } {
+  const counted = STREAK_MODES[mode].statuses
+  const countedNames: string[] = []
+  const excusedNames: string[] = []
+  const shortfalls = new Map<string, string[]>()
+  const addShortfall = (why: string, name: string) => shortfalls.set(why, [...(shortfalls.get(why) || []), name])
+
+  DAILY_PRAYERS.forEach(({ name }) => {
+    const records = dayPrayers.filter(prayer => prayer.prayer_name === name)
+    if (records.some(prayer => counted.includes(prayer.status))) {
+      countedNames.push(name)
+    } else if (records.some(prayer => prayer.status === 'excused')) {
+      excusedNames.push(name)
+    } else if (records.some(prayer => prayer.status === 'missed') || records.length === 0) {
+      addShortfall(records.length === 0 ? 'not logged' : 'missed', name)
+    } else {
+      // Prayed, but not in a way this mode counts
+      const status = records[0].status
+      addShortfall(`${PRAYER_STATUSES[status].label.toLowerCase()}, which doesn't count under "${STREAK_MODES[mode].name}"`, name)
+    }
+  })
+
+  const excusedNote = excusedNames.length > 0 ? ` (${listNames(excusedNames)} excused)` : ''
+  if (shortfalls.size === 0 && countedNames.length > 0) {
+    const what = mode === 'on_time' ? 'on time' : mode === 'in_window' ? 'within their windows' : 'prayed'
+    return {
+      kept: true,
+      excused: false,
+      reason: excusedNames.length > 0
+        ? `Every other prayer ${what}${excusedNote}`
+        : `All five prayers ${what}`
+    }
+  }
+  if (shortfalls.size === 0) {
+    return { kept: false, excused: true, reason: 'Excused day' }
+  }
+
+  const reason = [...shortfalls.entries()]
+    .map(([why, names]) => `${listNames(names)} ${why}`)
+    .join('; ')
+  return { kept: false, excused: false, reason: `${reason}${excusedNote}` }
+}
+
+/**
+ * Derive streaks from the history alone, walking the calendar by `prayer_date`
+ * (already the day in the user's timezone). A day that isn't kept is carried
+ * over when excused, then by the month's grace days, then by a freeze token;
+ * only then does the streak break. The `to` day may still be in progress, so it
+ * never breaks the streak or spends a grace day or token.
+ */
+export function computeStreaks(
+  prayers: Prayer[],
+  range: StreakRange,
+  policy: StreakPolicy = DEFAULT_STREAK_POLICY
+): StreakSummary {
+  const byDate = new Map<string, Prayer[]>()
+  prayers.forEach(prayer => {
+    byDate.set(prayer.prayer_date, [...(byDate.get(prayer.prayer_date) || []), prayer])
+  })
+
+  const loggedDates = [...byDate.keys()].sort()
+  const from = range.from || loggedDates[0]
+  if (!from || from > range.to) return { current: 0, longest: 0, freezeTokens: 0, days: [] }
+
+  const graceUsed = new Map<string, number>() // By "yyyy-MM"
+  const days: StreakDay[] = []
+  let run = 0
+  let longest = 0
+  let keptSinceToken = 0
+  let freezeTokens = 0
+  let lastKeptDate: string | undefined
+
+  for (let date = from; date <= range.to; date = shiftDateKey(date, 1)) {
+    const day = evaluateDay(byDate.get(date) || [], policy.mode)
+    const month = date.slice(0, 7)
+
+    if (day.kept) {
+      run += 1
+      longest = Math.max(longest, run)
+      lastKeptDate = date
+      keptSinceToken += 1
+      let reason = day.reason
+      if (policy.freezeEvery > 0 && keptSinceToken >= policy.freezeEvery) {
+        keptSinceToken = 0
+        if (freezeTokens < MAX_FREEZE_TOKENS) {
+          freezeTokens += 1
+          reason += `; earned a freeze token (${freezeTokens} held)`
+        }
+      }
+      days.push({ date, outcome: 'kept', reason, streak: run })
+    } else if (day.excused) {
+      days.push({ date, outcome: 'excused', reason: `${day.reason}; the streak carries over`, streak: run })
+    } else if (date === range.to) {
+      days.push({ date, outcome: 'pending', reason: `Not over yet: ${day.reason}`, streak: run })
+    } else if (run > 0 && (graceUsed.get(month) || 0) < policy.graceDaysPerMonth) {
+      const used = (graceUsed.get(month) || 0) + 1
+      graceUsed.set(month, used)
+      days.push({
+        date,
+        outcome: 'grace',
+        reason: `${day.reason}; grace day ${used} of ${policy.graceDaysPerMonth} this month`,
+        streak: run
+      })
+    } else if (run > 0 && freezeTokens > 0) {
+      freezeTokens -= 1
+      days.push({
+        date,
+        outcome: 'freeze',
+        reason: `${day.reason}; a freeze token kept the streak (${freezeTokens} left)`,
+        streak: run
+      })
+    } else {
+      run = 0
+      keptSinceToken = 0
+      days.push({ date, outcome: 'broken', reason: day.reason, streak: 0 })
+    }
+  }
+
+  return { current: run, longest, lastKeptDate, freezeTokens, days }
+}
+
+export const CONSISTENCY_DAYS = 30
+
+/**
+ * Streak and rolling consistency of each daily prayer on its own. A day counts
+ * for a prayer when it was prayed the way the policy's mode requires; excused
+ * days neither count nor break. Grace days and freezes apply to whole days only.
+ * Consistency is the share of the last 30 days the prayer counted, leaving out
+ * excused days and the `to` day while it is still open.
+ */
+export function computePrayerStreaks(
+  prayers: Prayer[],
+  range: StreakRange,
+  policy: StreakPolicy = DEFAULT_STREAK_POLICY
+): PrayerConsistency[] {
+  const counted = STREAK_MODES[policy.mode].statuses
+  const firstLogged = prayers.reduce<string | undefined>(
+    (first, prayer) => !first || prayer.prayer_date < first ? prayer.prayer_date : first,
+    undefined
+  )
+  const consistencyFrom = shiftDateKey(range.to, -(CONSISTENCY_DAYS - 1))
+
+  return DAILY_PRAYERS.map(({ name }) => {
+    const statusesByDate = new Map<string, PrayerStatus[]>()
+    prayers
+      .filter(prayer => prayer.prayer_name === name)
+      .forEach(prayer => {
+        statusesByDate.set(prayer.prayer_date, [...(statusesByDate.get(prayer.prayer_date) || []), prayer.status])
+      })
+
+    let run = 0
+    let longest = 0
+    let keptDays = 0
+    let countedDays = 0
+    const from = range.from || firstLogged
+    if (from) {
+      for (let date = from; date <= range.to; date = shiftDateKey(date, 1)) {
+        const statuses = statusesByDate.get(date) || []
+        const kept = statuses.some(status => counted.includes(status))
+        const excused = !kept && statuses.includes('excused')
+        const open = date === range.to && !kept
+
+        if (kept) {
+          run += 1
+          longest = Math.max(longest, run)
+        } else if (!excused && !open) {
+          run = 0
+        }
+
+        if (date >= consistencyFrom && !excused && !open) {
+          countedDays += 1
+          if (kept) keptDays += 1
+        }
+      }
+    }
+
+    return {
+      prayer_name: name,
+      current_streak: run,
+      longest_streak: longest,
+      consistency: countedDays > 0 ? Math.round((keptDays / countedDays) * 100) : 0
+    }
+  })
+}
@@ -0,0 +1,95 @@
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+const getPartsFormatter = (timezone: string) => {
+  let formatter = formatterCache.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    })
+    formatterCache.set(timezone, formatter)
+  }
+  return formatter
+}
+
+// Wall-clock fields of an instant as seen in the given IANA timezone
+export function getZonedDateParts(date: Date, timezone: string): ZonedDateParts {
+  const parts = getPartsFormatter(timezone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value || 0)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second')
+  }
+}
+
+// Calendar date ("yyyy-MM-dd") of an instant in the given timezone
+export function getDateKey(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timezone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+// Format an instant as a clock time in the given timezone, e.g. "5:12 AM" or "05:12"
+export function formatTimeInZone(date: Date, timezone: string, hour12: boolean = true): string {
+  if (isNaN(date.getTime())) return '--:--'
+
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: hour12 ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hourCycle: hour12 ? 'h12' : 'h23'
+  }).format(date)
+}
+
+// The instant a wall-clock time ("HH:mm") on a calendar date ("yyyy-MM-dd") occurs in the given timezone
+export function zonedTimeToDate(dateKey: string, time: string, timezone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Correct by the zone's offset, twice so a DST change between guess and answer settles
+  let instant = wallClock
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedDateParts(new Date(instant), timezone)
+    const seen = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+    instant += wallClock - seen
+  }
+  return new Date(instant)
+}
+
+// The calendar date `days` away from a "yyyy-MM-dd" date. Pure date arithmetic, so DST can't shift it
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+// First day of the week containing a "yyyy-MM-dd" date; `weekStartsOn` is 0 for Sunday to 6 for Saturday
+export function getWeekStartKey(dateKey: string, weekStartsOn: number = 0): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  return shiftDateKey(dateKey, -((weekday - weekStartsOn + 7) % 7))
+}
@@ -0,0 +1,164 @@
+import { ReminderSound } from '../types/prayer'
+import { REMINDER_SOUNDS } from '../lib/reminderSounds'
+
+export interface PlaybackOptions {
+  volume: number // 0 ... 100
+  fadeInSeconds?: number // Recordings only
+  beeps?: number // Repeats of the beep, louder each time, for follow-ups nearing the deadline
+  onEnded?: () => void // Called once the sound finishes or is stopped
+}
+
+// A sound started by AudioService.play
+export interface Playback {
+  stop: () => void
+}
+
+// Stopping fades out this quickly rather than cutting the recording off
+const FADE_OUT_SECONDS = 0.3
+
+export class AudioService {
+  private static context: AudioContext | null = null
+  private static current: Playback | null = null
+
+  private static getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)()
+    }
+    // Browsers suspend a context created before the user interacted with the page
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {})
+    }
+    return this.context
+  }
+
+  // Plays a sound, stopping whatever was playing before
+  static play(sound: ReminderSound, options: PlaybackOptions): Playback {
+    this.stop()
+
+    let stopped = false
+    let stopSound = () => {}
+    const finish = () => {
+      if (stopped) return
+      stopped = true
+      if (this.current === playback) this.current = null
+      options.onEnded?.()
+    }
+    const playback: Playback = {
+      stop: () => {
+        stopSound()
+        finish()
+      }
+    }
+    this.current = playback
+
+    if (sound === 'silent') {
+      finish()
+      return playback
+    }
+
+    try {
+      const src = REMINDER_SOUNDS[sound].src
+      if (src) {
+        stopSound = this.playRecording(src, options, finish, () => {
+          // Missing or undecodable recording; the beep always works
+          if (!stopped) stopSound = this.playBeep(options, finish)
+        })
+      } else {
+        stopSound = this.playBeep(options, finish)
+      }
+    } catch (error) {
+      console.log('Could not play notification sound:', error)
+      finish()
+    }
+    return playback
+  }
+
+  static stop(): void {
+    this.current?.stop()
+  }
+
+  private static playRecording(
+    src: string,
+    { volume, fadeInSeconds = 0 }: PlaybackOptions,
+    onEnded: () => void,
+    onError: () => void
+  ): () => void {
+    const context = this.getContext()
+    const audio = new Audio(src)
+    // Gain rather than audio.volume, which is read-only on iOS
+    const source = context.createMediaElementSource(audio)
+    const gainNode = context.createGain()
+    source.connect(gainNode)
+    gainNode.connect(context.destination)
+
+    const level = volume / 100
+    if (fadeInSeconds > 0) {
+      gainNode.gain.setValueAtTime(0, context.currentTime)
+      gainNode.gain.linearRampToValueAtTime(level, context.currentTime + fadeInSeconds)
+    } else {
+      gainNode.gain.setValueAtTime(level, context.currentTime)
+    }
+
+    const release = () => {
+      audio.pause()
+      source.disconnect()
+      gainNode.disconnect()
+    }
+    let failed = false
+    const fail = () => {
+      if (failed) return
+      failed = true
+      release()
+      onError()
+    }
+
+    audio.addEventListener('ended', () => {
+      release()
+      onEnded()
+    })
+    audio.addEventListener('error', fail)
+    audio.play().catch(fail)
+
+    return () => {
+      const now = context.currentTime
+      gainNode.gain.cancelScheduledValues(now)
+      gainNode.gain.setValueAtTime(gainNode.gain.value, now)
+      gainNode.gain.linearRampToValueAtTime(0, now + FADE_OUT_SECONDS)
+      setTimeout(release, FADE_OUT_SECONDS * 1000)
+    }
+  }
+
+  private static playBeep({ volume, beeps = 1 }: PlaybackOptions, onEnded: () => void): () => void {
+    const context = this.getContext()
+    const oscillators: OscillatorNode[] = []
+
+    for (let beep = 0; beep < beeps; beep++) {
+      const start = context.currentTime + beep * 0.6
+      const oscillator = context.createOscillator()
+      const gainNode = context.createGain()
+
+      oscillator.connect(gainNode)
+      gainNode.connect(context.destination)
+
+      oscillator.frequency.setValueAtTime(800, start)
+      oscillator.frequency.setValueAtTime(600, start + 0.1)
+
+      // Exponential ramps can't reach zero, so the tail stops just above it
+      gainNode.gain.setValueAtTime(volume / 100 * Math.min(0.8, 0.3 + beep * 0.15), start)
+      gainNode.gain.exponentialRampToValueAtTime(Math.max(0.0001, volume / 100 * 0.01), start + 0.5)
+
+      oscillator.start(start)
+      oscillator.stop(start + 0.5)
+      oscillators.push(oscillator)
+    }
+    oscillators[oscillators.length - 1]?.addEventListener('ended', onEnded)
+
+    return () => oscillators.forEach(oscillator => {
+      try {
+        oscillator.stop()
+      } catch {
+        // Already stopped
+      }
+    })
+  }
+}
@@ -0,0 +1,137 @@
+import { blink } from '../blink/client'
+import { Prayer, PrayerConflict } from '../types/prayer'
+import { FieldConflict, findDuplicatePrayers, mergeDuplicatePrayers } from '../lib/conflicts'
+import { PrayerRepository } from './prayerRepository'
+import { SyncQueue } from './syncQueue'
+import { RevisionService } from './revisionService'
+
+export class ConflictService {
+  private static started = false
+  // The latest duplicate merge; each run waits for the one before it
+  private static mergeQueue: Promise<void> = Promise.resolve()
+
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  static start(): void {
+    if (this.started) return
+    this.started = true
+    SyncQueue.onConflict(conflict => {
+      this.recordFieldConflict(conflict).catch(error => {
+        console.error('Failed to record sync conflict:', error)
+      })
+    })
+  }
+
+  private static async recordFieldConflict(conflict: FieldConflict): Promise<void> {
+    if (conflict.table !== PrayerRepository.prayers.tableName) return
+
+    const userId = await this.getCurrentUserId()
+    const prayer = await PrayerRepository.prayers.get(userId, conflict.record_id)
+    if (!prayer) return
+
+    const now = new Date().toISOString()
+    await PrayerRepository.conflicts.upsert({
+      id: `conflict_${conflict.record_id}_${conflict.clock}`,
+      user_id: userId,
+      prayer_id: prayer.id,
+      prayer_name: prayer.prayer_name,
+      prayer_date: prayer.prayer_date,
+      field: conflict.field,
+      kept_value: conflict.kept_value,
+      other_value: conflict.other_value,
+      source: 'concurrent_edit',
+      created_at: now,
+      updated_at: now
+    })
+  }
+
+  /**
+   * Fold logs of the same prayer on the same day (e.g. Dhuhr logged on two
+   * devices while offline) into one record. Runs after each pull, one run at a
+   * time, with `loadPrayers` read once the previous run has written its merge,
+   * so a group is never merged twice. Every device picks the same record to keep.
+   */
+  static mergeDuplicatePrayers(loadPrayers: () => Promise<Prayer[]>): Promise<void> {
+    this.mergeQueue = this.mergeQueue
+      .then(async () => this.mergeGroups(findDuplicatePrayers(await loadPrayers())))
+      .catch(error => {
+        console.error('Failed to merge duplicate prayers:', error)
+      })
+    return this.mergeQueue
+  }
+
+  private static async mergeGroups(groups: Prayer[][]): Promise<void> {
+    if (groups.length === 0) return
+    const userId = await this.getCurrentUserId()
+
+    for (const group of groups) {
+      const { merged, duplicates, conflicts } = mergeDuplicatePrayers(group)
+      const primary = group.find(prayer => prayer.id === merged.id) as Prayer
+      const changes = Object.fromEntries(
+        Object.entries(merged).filter(([field, value]) =>
+          field !== 'field_clocks' && value !== primary[field as keyof Prayer]
+        )
+      ) as Partial<Prayer>
+      // Normalized status and date are persisted along with the merge
+      const saved = await PrayerRepository.prayers.update(userId, merged.id, {
+        ...changes,
+        status: merged.status,
+        prayer_date: merged.prayer_date
+      })
+      await RevisionService.record('merged', primary, saved)
+
+      const now = new Date().toISOString()
+      for (const conflict of conflicts) {
+        await PrayerRepository.conflicts.upsert({
+          id: `conflict_${merged.id}_${conflict.duplicate.id}`,
+          user_id: userId,
+          prayer_id: merged.id,
+          prayer_name: merged.prayer_name,
+          prayer_date: merged.prayer_date,
+          field: 'notes',
+          kept_value: conflict.kept_value,
+          other_value: conflict.other_value,
+          source: 'duplicate',
+          created_at: now,
+          updated_at: now
+        })
+      }
+
+      // Duplicates are soft-deleted like any other log, so they can still be restored
+      for (const duplicate of duplicates) {
+        const deleted = await PrayerRepository.prayers.update(userId, duplicate.id, {
+          deleted_at: now,
+          updated_at: now
+        })
+        await RevisionService.record('merged', duplicate, deleted)
+      }
+    }
+  }
+
+  static async getOpenConflicts(): Promise<PrayerConflict[]> {
+    const userId = await this.getCurrentUserId()
+    const conflicts = await PrayerRepository.conflicts.list(userId)
+    return conflicts
+      .filter(conflict => !conflict.resolved_at)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+  }
+
+  // Settle a conflict with the notes the user chose
+  static async resolveConflict(conflictId: string, notes: string): Promise<void> {
+    const userId = await this.getCurrentUserId()
+    const conflict = await PrayerRepository.conflicts.get(userId, conflictId)
+    if (!conflict) return
+
+    const now = new Date().toISOString()
+    const prayer = await PrayerRepository.prayers.get(userId, conflict.prayer_id)
+    if (prayer && prayer.notes !== notes) {
+      const updated = await PrayerRepository.prayers.update(userId, prayer.id, { notes, updated_at: now })
+      await RevisionService.record('updated', prayer, updated)
+    }
+    await PrayerRepository.conflicts.update(userId, conflict.id, { resolved_at: now, updated_at: now })
+  }
+}
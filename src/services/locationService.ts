@@ -0,0 +1,81 @@
+import { blink } from '../blink/client'
+import { UserLocation } from '../types/prayer'
+import { City } from '../data/cities'
+import { findNearestCity, formatCoordinates } from '../lib/gazetteer'
+import { getDeviceTimezone } from '../lib/timezone'
+import { PrayerRepository } from './prayerRepository'
+
+type LocationInput = Pick<UserLocation, 'name' | 'country' | 'latitude' | 'longitude' | 'timezone' | 'elevation' | 'source'>
+
+export class LocationService {
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  static async getLocation(): Promise<UserLocation | null> {
+    const userId = await this.getCurrentUserId()
+    const locations = await PrayerRepository.locations.list(userId)
+    // A location saved to localStorage by older versions, until the migration has moved it
+    return locations[0] || PrayerRepository.locations.readLegacyStorage(userId)[0] || null
+  }
+
+  static async saveLocation(input: LocationInput): Promise<UserLocation> {
+    const userId = await this.getCurrentUserId()
+    const now = new Date().toISOString()
+    const existingLocation = await this.getLocation()
+    const location: UserLocation = {
+      id: `location_${userId}`,
+      user_id: userId,
+      ...input,
+      created_at: existingLocation?.created_at || now,
+      updated_at: now
+    }
+
+    return await PrayerRepository.locations.upsert(location)
+  }
+
+  static async setLocationFromCity(city: City): Promise<UserLocation> {
+    return this.saveLocation({
+      name: city.name,
+      country: city.country,
+      latitude: city.latitude,
+      longitude: city.longitude,
+      timezone: city.timezone,
+      elevation: city.elevation,
+      source: 'manual'
+    })
+  }
+
+  // Browser geolocation, resolved against the bundled gazetteer for a display name
+  static async setLocationFromDevice(): Promise<UserLocation> {
+    const position = await this.getCurrentPosition()
+    const { latitude, longitude, altitude } = position.coords
+    const nearestCity = findNearestCity(latitude, longitude)
+
+    return this.saveLocation({
+      name: nearestCity ? `Near ${nearestCity.name}` : formatCoordinates(latitude, longitude),
+      country: nearestCity?.country,
+      latitude,
+      longitude,
+      timezone: getDeviceTimezone(),
+      elevation: Math.round(altitude ?? nearestCity?.elevation ?? 0),
+      source: 'geolocation'
+    })
+  }
+
+  static getCurrentPosition(): Promise<GeolocationPosition> {
+    if (!('geolocation' in navigator)) {
+      return Promise.reject(new Error('Geolocation is not supported in this browser'))
+    }
+
+    return new Promise((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, {
+        enableHighAccuracy: false,
+        timeout: 15000,
+        maximumAge: 10 * 60 * 1000
+      })
+    })
+  }
+}
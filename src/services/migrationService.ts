@@ -0,0 +1,225 @@
+import { blink } from '../blink/client'
+import { Prayer, PrayerReminder, PrayerStreak } from '../types/prayer'
+import { derivePrayerStatus, normalizePrayer } from '../lib/prayerStatus'
+import { PrayerService } from './prayerService'
+import { PrayerRepository, RecordCollection } from './prayerRepository'
+
+// Records written by the old usePrayerData hook under the prayer_logs_ key family
+interface LegacyPrayerLog {
+  id: string
+  userId: string
+  prayerName: string
+  loggedAt: string
+  durationMinutes?: number
+  notes?: string
+  createdAt: string
+}
+
+interface LegacyPrayerReminder {
+  id: string
+  userId: string
+  prayerName: string
+  reminderTime: string
+  isEnabled: boolean
+}
+
+interface LegacyPrayerStreak {
+  currentStreak: number
+  longestStreak: number
+  lastPrayerDate: string // Date.toDateString()
+}
+
+const STORAGE_VERSION = '3'
+
+let runningMigration: Promise<void> | null = null
+
+export class MigrationService {
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  private static readLegacy<T>(key: string): T | null {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : null
+  }
+
+  /**
+   * Move everything kept in localStorage into the repository once per user:
+   * the hook's prayer_logs_/prayer_reminders_/prayer_streak_ keys, and the
+   * service's own prayers_/reminders_/settings_/... fallback records. New
+   * records land in the local store and the outbox, which syncs them. A user
+   * with no reminders at all is given the defaults in the same pass.
+   */
+  static migrateLegacyStorage(): Promise<void> {
+    if (!runningMigration) {
+      runningMigration = this.runMigration().catch(error => {
+        console.error('Failed to migrate stored prayer data:', error)
+        runningMigration = null
+      })
+    }
+    return runningMigration
+  }
+
+  private static async runMigration(): Promise<void> {
+    const userId = await this.getCurrentUserId()
+    const versionKey = `storage_version_${userId}`
+    if (localStorage.getItem(versionKey) === STORAGE_VERSION) return
+
+    await this.migratePrayers(userId)
+    await this.migrateReminders(userId)
+    await this.seedDefaultReminders(userId)
+    await this.migrateStreak(userId)
+    await this.migrateSingleRecords(userId)
+
+    localStorage.removeItem(`prayer_logs_${userId}`)
+    localStorage.removeItem(`prayer_reminders_${userId}`)
+    localStorage.removeItem(`prayer_streak_${userId}`)
+    this.allCollections().forEach(collection => collection.clearLegacyStorage(userId))
+    localStorage.setItem(versionKey, STORAGE_VERSION)
+  }
+
+  private static allCollections(): RecordCollection<{ id: string, user_id: string }>[] {
+    return [
+      PrayerRepository.prayers,
+      PrayerRepository.reminders,
+      PrayerRepository.streaks,
+      PrayerRepository.settings,
+      PrayerRepository.locations,
+      PrayerRepository.qadaBacklogs,
+      PrayerRepository.qadaRepayments
+    ]
+  }
+
+  // Create the records the repository does not have yet
+  private static async mergeInto<T extends { id: string, user_id: string }>(
+    collection: RecordCollection<T>,
+    userId: string,
+    records: T[],
+    isDuplicate: (record: T, existing: T) => boolean
+  ): Promise<void> {
+    const existing = await collection.list(userId)
+    for (const record of records) {
+      if (!existing.some(e => e.id === record.id || isDuplicate(record, e))) {
+        existing.push(await collection.create(record))
+      }
+    }
+  }
+
+  private static async migratePrayers(userId: string): Promise<void> {
+    const legacyLogs = this.readLegacy<LegacyPrayerLog[]>(`prayer_logs_${userId}`) || []
+    const { location, params } = await PrayerService.getCalculationContext()
+
+    const legacyPrayers: Prayer[] = legacyLogs.map(log => {
+      const { status, prayerDate } = derivePrayerStatus(log.prayerName, new Date(log.loggedAt), location, params)
+      return {
+        id: log.id,
+        user_id: userId,
+        prayer_name: log.prayerName,
+        prayer_date: prayerDate,
+        status,
+        start_time: log.loggedAt,
+        duration_minutes: log.durationMinutes,
+        notes: log.notes || '',
+        logged_at: log.loggedAt,
+        created_at: log.createdAt,
+        updated_at: log.createdAt
+      }
+    })
+
+    const records = [
+      ...PrayerRepository.prayers.readLegacyStorage(userId).map(prayer => normalizePrayer(prayer, location, params)),
+      ...legacyPrayers
+    ]
+
+    await this.mergeInto(PrayerRepository.prayers, userId, records, (record, existing) =>
+      record.prayer_name === existing.prayer_name && record.logged_at === existing.logged_at
+    )
+  }
+
+  private static async migrateReminders(userId: string): Promise<void> {
+    const legacyReminders = this.readLegacy<LegacyPrayerReminder[]>(`prayer_reminders_${userId}`) || []
+    const now = new Date().toISOString()
+
+    const converted: PrayerReminder[] = legacyReminders.map(reminder => ({
+      id: `reminder_${userId}_${reminder.prayerName.toLowerCase()}`,
+      user_id: userId,
+      prayer_name: reminder.prayerName,
+      anchor: 'absolute',
+      reminder_time: reminder.reminderTime,
+      is_enabled: reminder.isEnabled ? "1" : "0",
+      days_of_week: "1,2,3,4,5,6,7",
+      created_at: now,
+      updated_at: now
+    }))
+
+    // Reminders already in the new schema win; old ones only fill in missing prayers
+    await this.mergeInto(
+      PrayerRepository.reminders,
+      userId,
+      [...PrayerRepository.reminders.readLegacyStorage(userId), ...converted],
+      (record, existing) => record.prayer_name === existing.prayer_name
+    )
+  }
+
+  // Only here, once per user, so someone who deletes every reminder isn't given them back
+  private static async seedDefaultReminders(userId: string): Promise<void> {
+    const reminders = await PrayerRepository.reminders.list(userId)
+    if (reminders.length === 0) {
+      await PrayerService.createDefaultReminders()
+    }
+  }
+
+  private static async migrateStreak(userId: string): Promise<void> {
+    const legacyStreak = this.readLegacy<LegacyPrayerStreak>(`prayer_streak_${userId}`)
+    const localStreak = PrayerRepository.streaks.readLegacyStorage(userId)[0]
+    const streak = await PrayerService.getOrCreateStreak(userId)
+
+    const candidates = [
+      localStreak,
+      legacyStreak && {
+        current_streak: legacyStreak.currentStreak,
+        longest_streak: legacyStreak.longestStreak,
+        last_prayer_date: legacyStreak.lastPrayerDate
+          ? new Date(legacyStreak.lastPrayerDate).toISOString()
+          : undefined
+      }
+    ].filter(Boolean) as Pick<PrayerStreak, 'current_streak' | 'longest_streak' | 'last_prayer_date'>[]
+
+    if (candidates.length === 0) return
+
+    const merged = { ...streak }
+    for (const candidate of candidates) {
+      merged.longest_streak = Math.max(merged.longest_streak, candidate.longest_streak)
+      if ((candidate.last_prayer_date || '') > (merged.last_prayer_date || '')) {
+        merged.current_streak = candidate.current_streak
+        merged.last_prayer_date = candidate.last_prayer_date
+      }
+    }
+
+    await PrayerRepository.streaks.update(userId, streak.id, {
+      ...merged,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  // Settings, location and qada records saved to localStorage while the database was down
+  private static async migrateSingleRecords(userId: string): Promise<void> {
+    // A settings or location record already in the repository is newer than the fallback copy
+    await this.mergeInto(PrayerRepository.settings, userId, PrayerRepository.settings.readLegacyStorage(userId), () => true)
+    await this.mergeInto(PrayerRepository.locations, userId, PrayerRepository.locations.readLegacyStorage(userId), () => true)
+    await this.mergeInto(
+      PrayerRepository.qadaBacklogs,
+      userId,
+      PrayerRepository.qadaBacklogs.readLegacyStorage(userId),
+      (record, existing) => record.prayer_name === existing.prayer_name
+    )
+    await this.mergeInto(
+      PrayerRepository.qadaRepayments,
+      userId,
+      PrayerRepository.qadaRepayments.readLegacyStorage(userId),
+      () => false
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { PERIODIC_SYNC_TAG, ReminderSchedule, ServiceWorkerMessage } from '../lib/notificationSchedule'
+
+// Periodic background sync is Chromium-only and not in the TypeScript DOM lib
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>
+}
+
+// The browser decides the real interval from site engagement; this is a floor
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000
+
+export class NotificationService {
+  private static registration: Promise<ServiceWorkerRegistration | null> | null = null
+
+  static isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'Notification' in window
+  }
+
+  // Registers the service worker once; resolves to null where it can't run
+  static register(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.registration) {
+      this.registration = this.registerServiceWorker()
+    }
+    return this.registration
+  }
+
+  private static async registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.isSupported()) return null
+
+    try {
+      // Vite serves the worker from source in development and builds it to /sw.js. Under
+      // /src/ it needs the Service-Worker-Allowed header (see vite.config.ts) to control "/".
+      const url = import.meta.env.DEV ? '/src/sw.ts' : '/sw.js'
+      const registration = await navigator.serviceWorker.register(url, { type: 'module', scope: '/' })
+      await this.waitForActivation(registration)
+      await this.registerPeriodicSync(registration)
+      return registration
+    } catch (error) {
+      // e.g. no module service workers in this browser; the page shows reminders itself
+      console.error('Failed to register service worker:', error)
+      return null
+    }
+  }
+
+  // A first install has no active worker yet to post messages to
+  private static waitForActivation(registration: ServiceWorkerRegistration): Promise<void> {
+    const worker = registration.installing || registration.waiting
+    if (registration.active || !worker) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'activated') resolve()
+        if (worker.state === 'redundant') reject(new Error('Service worker failed to install'))
+      })
+    })
+  }
+
+  // Wakes the worker in the background where the browser allows it (installed apps)
+  private static async registerPeriodicSync(registration: ServiceWorkerRegistration): Promise<void> {
+    const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync
+    if (!periodicSync) return
+
+    try {
+      await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS })
+    } catch (error) {
+      console.log('Periodic background sync unavailable:', error)
+    }
+  }
+
+  private static async post(message: ServiceWorkerMessage): Promise<boolean> {
+    const registration = await this.register()
+    if (!registration?.active) return false
+    registration.active.postMessage(message)
+    return true
+  }
+
+  // Hands the worker what it needs to schedule reminders without the app open
+  static syncSchedule(schedule: ReminderSchedule): Promise<boolean> {
+    return this.post({ type: 'schedule', schedule })
+  }
+
+  static checkDueReminders(): Promise<boolean> {
+    return this.post({ type: 'check' })
+  }
+
+  static notifyPrayersChanged(): Promise<boolean> {
+    return this.post({ type: 'prayers-changed' })
+  }
+
+  static showTestNotification(prayerName: string): Promise<boolean> {
+    return this.post({ type: 'test', prayerName })
+  }
+}
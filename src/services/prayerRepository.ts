@@ -0,0 +1,221 @@
+import { blink } from '../blink/client'
+import {
+  Prayer,
+  PrayerReminder,
+  PrayerStreak,
+  PrayerSettings,
+  UserLocation,
+  QadaBacklog,
+  QadaRepayment,
+  PrayerConflict,
+  PrayerRevision
+} from '../types/prayer'
+import {
+  deleteLocalRecords,
+  getLocalRecord,
+  getLocalRecords,
+  getPulledAtKey,
+  isLocalStoreAvailable,
+  putLocalRecords,
+  setLocalValue
+} from '../lib/localStore'
+import { nextHlc } from '../lib/hlc'
+import { observeFieldClocks, parseFieldClocks, stampFields } from '../lib/conflicts'
+import { SyncQueue } from './syncQueue'
+
+interface UserRecord {
+  id: string
+  user_id: string
+  field_clocks?: string
+}
+
+/**
+ * One user-scoped blink.db table. Reads and writes go to the local IndexedDB
+ * copy; writes are queued in the outbox and replayed to blink.db by SyncQueue.
+ * The local copy is pulled from blink.db on the first read of a session and
+ * again on refresh(). Where IndexedDB is unavailable, blink.db is used directly.
+ */
+export class RecordCollection<T extends UserRecord> {
+  private pulls = new Map<string, Promise<void>>()
+  private pulled = new Set<string>() // Users whose local copy was pulled this session
+
+  // `storagePrefix` names the localStorage key family used before the local store existed
+  constructor(readonly tableName: string, readonly storagePrefix: string) {}
+
+  // Older single-record keys (settings, location, streak) hold an object rather than an array
+  readLegacyStorage(userId: string): T[] {
+    const stored = localStorage.getItem(`${this.storagePrefix}_${userId}`)
+    if (!stored) return []
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : [parsed]
+  }
+
+  clearLegacyStorage(userId: string): void {
+    localStorage.removeItem(`${this.storagePrefix}_${userId}`)
+  }
+
+  async list(userId: string): Promise<T[]> {
+    if (!await isLocalStoreAvailable()) {
+      return blink.db.table<T>(this.tableName).list({ where: { user_id: userId } })
+    }
+    if (!this.pulled.has(userId)) await this.refresh(userId)
+    return getLocalRecords<T>(this.tableName, userId)
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    const records = await this.list(userId)
+    return records.find(record => record.id === id) || null
+  }
+
+  private async getExisting(id: string): Promise<T | null> {
+    if (await isLocalStoreAvailable()) return getLocalRecord<T>(this.tableName, id)
+    return blink.db.table<T>(this.tableName).get(id)
+  }
+
+  // Writes are queued before they touch the local copy, so a concurrent pull never
+  // sees a local record without its pending mutation
+  async create(record: T): Promise<T> {
+    const stamped = {
+      ...record,
+      field_clocks: JSON.stringify(stampFields({}, Object.keys(record), nextHlc()))
+    }
+    if (!await isLocalStoreAvailable()) {
+      await blink.db.table<T>(this.tableName).upsert(stamped)
+      return stamped
+    }
+    await SyncQueue.enqueue({
+      table: this.tableName,
+      type: 'create',
+      record_id: record.id,
+      user_id: record.user_id,
+      data: { ...stamped }
+    })
+    await putLocalRecords(this.tableName, [stamped])
+    return stamped
+  }
+
+  async update(userId: string, id: string, updates: Partial<T>): Promise<T> {
+    const existing = await this.getExisting(id)
+    if (!existing) {
+      throw new Error(`Record ${id} not found in ${this.tableName}`)
+    }
+
+    // Stamp each changed field so the sync layer can merge edits field by field
+    const fieldClocks = JSON.stringify(
+      stampFields(parseFieldClocks(existing.field_clocks), Object.keys(updates), nextHlc())
+    )
+    const updated = { ...existing, ...updates, field_clocks: fieldClocks }
+    if (!await isLocalStoreAvailable()) {
+      await blink.db.table<T>(this.tableName).update(id, { ...updates, field_clocks: fieldClocks })
+      return updated
+    }
+    await SyncQueue.enqueue({
+      table: this.tableName,
+      type: 'update',
+      record_id: id,
+      user_id: userId,
+      data: { ...updates, field_clocks: fieldClocks },
+      base_clocks: existing.field_clocks
+    })
+    await putLocalRecords(this.tableName, [updated])
+    return updated
+  }
+
+  async upsert(record: T): Promise<T> {
+    const existing = await this.getExisting(record.id)
+    if (!existing) return this.create(record)
+
+    // Only fields that actually changed take part in last-writer-wins
+    const changes = Object.fromEntries(
+      Object.entries(record).filter(([field, value]) =>
+        field !== 'field_clocks' && value !== existing[field as keyof T]
+      )
+    ) as Partial<T>
+    return Object.keys(changes).length > 0
+      ? this.update(record.user_id, record.id, changes)
+      : existing
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    if (!await isLocalStoreAvailable()) {
+      await blink.db.table<T>(this.tableName).delete(id)
+      return
+    }
+    await SyncQueue.enqueue({
+      table: this.tableName,
+      type: 'delete',
+      record_id: id,
+      user_id: userId
+    })
+    await deleteLocalRecords(this.tableName, [id])
+  }
+
+  // Pulls the server's copy into the local store; concurrent calls for the same user share one request
+  refresh(userId: string): Promise<void> {
+    let pull = this.pulls.get(userId)
+    if (!pull) {
+      pull = this.pullFromServer(userId).finally(() => {
+        this.pulls.delete(userId)
+      })
+      this.pulls.set(userId, pull)
+    }
+    return pull
+  }
+
+  // Replace the local copy with the server's, except records with changes still in the outbox
+  private async pullFromServer(userId: string): Promise<void> {
+    if (!navigator.onLine) return
+
+    try {
+      const startedAt = new Date().toISOString()
+      // Read the outbox on both sides of the fetch: a mutation synced mid-pull is in the
+      // first read, one queued mid-pull is in the second
+      const pendingBefore = await SyncQueue.getPendingRecordIds(this.tableName)
+      const remote = await blink.db.table<T>(this.tableName).list({ where: { user_id: userId } })
+      const local = await getLocalRecords<T>(this.tableName, userId)
+      const pendingIds = new Set([...pendingBefore, ...await SyncQueue.getPendingRecordIds(this.tableName)])
+      const remoteIds = new Set(remote.map(record => record.id))
+      remote.forEach(record => observeFieldClocks(record.field_clocks))
+
+      await putLocalRecords(this.tableName, remote.filter(record => !pendingIds.has(record.id)))
+      await deleteLocalRecords(
+        this.tableName,
+        local.filter(record => !remoteIds.has(record.id) && !pendingIds.has(record.id)).map(record => record.id)
+      )
+      this.pulled.add(userId)
+      // The service worker holds back follow-ups until prayers were pulled after they came due
+      await setLocalValue(getPulledAtKey(this.tableName, userId), startedAt)
+    } catch (error) {
+      console.log(`Database not available, reading ${this.tableName} from the local store`)
+    }
+  }
+}
+
+// The single schema every service and hook reads and writes through
+export class PrayerRepository {
+  static prayers = new RecordCollection<Prayer>('prayers', 'prayers')
+  static reminders = new RecordCollection<PrayerReminder>('prayer_reminders', 'reminders')
+  static streaks = new RecordCollection<PrayerStreak>('prayer_streaks', 'streak')
+  static settings = new RecordCollection<PrayerSettings>('prayer_settings', 'settings')
+  static locations = new RecordCollection<UserLocation>('user_locations', 'location')
+  static qadaBacklogs = new RecordCollection<QadaBacklog>('qada_backlogs', 'qada_backlogs')
+  static qadaRepayments = new RecordCollection<QadaRepayment>('qada_repayments', 'qada_repayments')
+  static conflicts = new RecordCollection<PrayerConflict>('prayer_conflicts', 'prayer_conflicts')
+  static revisions = new RecordCollection<PrayerRevision>('prayer_revisions', 'prayer_revisions')
+
+  // Pulls every table, bringing in changes made on other devices
+  static async refresh(userId: string): Promise<void> {
+    const collections: RecordCollection<UserRecord>[] = [
+      this.prayers,
+      this.reminders,
+      this.streaks,
+      this.settings,
+      this.locations,
+      this.qadaBacklogs,
+      this.qadaRepayments,
+      this.conflicts,
+      this.revisions
+    ]
+    await Promise.all(collections.map(collection => collection.refresh(userId)))
+  }
+}
@@ -1,6 +1,46 @@
 import { blink } from '../blink/client'
-import { Prayer, PrayerReminder, PrayerStreak, PrayerStats } from '../types/prayer'
-import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, eachDayOfInterval, parseISO } from 'date-fns'
+import {
+  Prayer,
+  PrayerChartStats,
+  PrayerConsistency,
+  PrayerReminder,
+  PrayerStreak,
+  PrayerStats,
+  PrayerStatus,
+  StatsRange,
+  StatsRangePreset,
+  DAILY_PRAYERS,
+  DEFAULT_LOCATION
+} from '../types/prayer'
+import { SettingsService } from './settingsService'
+import { LocationService } from './locationService'
+import { toCalculationParams } from '../lib/calculationMethods'
+import { calculatePrayerTimes, getReminderTimes } from '../lib/prayerTimes'
+import { createPrayerRecord, derivePrayerStatus, isPrayerPerformed, normalizePrayer } from '../lib/prayerStatus'
+import { getDateKey, getDeviceTimezone, shiftDateKey } from '../lib/timezone'
+import { getPrayerDelays, getPrayerPunctuality, getPunctualityTrend } from '../lib/punctuality'
+import { StreakSummary, computePrayerStreaks, computeStreaks, toStreakPolicy } from '../lib/streaks'
+import {
+  DEFAULT_WEEK_START,
+  countByPeriod,
+  getCompletionMetrics,
+  getCompletionSeries,
+  getDurationHistogram,
+  getStatsRange
+} from '../lib/chartStats'
+import { getPrayerWindow } from '../lib/prayerWindows'
+import { compareReminders } from '../lib/reminders'
+import { ConflictService } from './conflictService'
+import { RevisionService } from './revisionService'
+import { PrayerRepository } from './prayerRepository'
+
+const emptyStatusCounts = (): Record<PrayerStatus, number> => ({
+  on_time: 0,
+  late: 0,
+  qada: 0,
+  missed: 0,
+  excused: 0
+})
 
 export class PrayerService {
   // Get current user ID
@@ -9,449 +49,419 @@ export class PrayerService {
     return user.id
   }
 
+  // Pulls changes made on other devices; reads are served from the local store in between
+  static async refresh(): Promise<void> {
+    const userId = await this.getCurrentUserId()
+    await PrayerRepository.refresh(userId)
+    // Two devices logging the same prayer offline leave two records for one day
+    await ConflictService.mergeDuplicatePrayers(() => this.getAllPrayers())
+  }
+
+  // Location and calculation settings that prayer windows are judged against
+  static async getCalculationContext() {
+    const [settings, userLocation] = await Promise.all([
+      SettingsService.getSettings(),
+      LocationService.getLocation()
+    ])
+    return {
+      location: userLocation || DEFAULT_LOCATION,
+      params: toCalculationParams(settings),
+      weekStartsOn: settings.week_starts_on ?? DEFAULT_WEEK_START
+    }
+  }
+
+  private static async normalizePrayers(prayers: Prayer[]): Promise<Prayer[]> {
+    if (prayers.every(prayer => prayer.status && prayer.prayer_date)) return prayers
+
+    const { location, params } = await this.getCalculationContext()
+    return prayers.map(prayer => normalizePrayer(prayer, location, params))
+  }
+
   // Prayer logging methods
-  static async logPrayer(prayerName: string, startTime?: Date, endTime?: Date): Promise<Prayer> {
+  // `status` overrides the derived one for prayers that were not performed (excused/missed)
+  static async logPrayer(
+    prayerName: string,
+    startTime?: Date,
+    endTime?: Date,
+    status?: PrayerStatus
+  ): Promise<Prayer> {
     const userId = await this.getCurrentUserId()
-    const now = new Date().toISOString()
-    const start = startTime ? startTime.toISOString() : now
-    const end = endTime ? endTime.toISOString() : undefined
-    const durationMinutes = startTime && endTime ? 
-      Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)) : undefined
+    const { location, params } = await this.getCalculationContext()
+    const prayer = createPrayerRecord(userId, prayerName, location, params, startTime, endTime, status)
+
+    const result = await PrayerRepository.prayers.create(prayer)
+    await RevisionService.record('created', null, result)
+    // Update streak after logging prayer
+    await this.updateStreak()
+    return result
+  }
 
-    const prayer: Prayer = {
-      id: `prayer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      user_id: userId,
-      prayer_name: prayerName,
-      start_time: start,
-      end_time: end,
-      duration_minutes: durationMinutes,
-      logged_at: now,
-      notes: '',
-      created_at: now,
-      updated_at: now
+  /**
+   * Correct a logged prayer. Changing its time or name re-judges its status and
+   * day against the computed windows, unless it is being marked excused or missed.
+   */
+  static async updatePrayer(
+    prayerId: string,
+    updates: Partial<Pick<Prayer, 'prayer_name' | 'start_time' | 'end_time' | 'status' | 'notes'>>
+  ): Promise<Prayer> {
+    const userId = await this.getCurrentUserId()
+    const existing = await PrayerRepository.prayers.get(userId, prayerId)
+    if (!existing) {
+      throw new Error('Prayer not found')
     }
 
-    try {
-      const result = await blink.db.prayers.create(prayer)
-      // Update streak after logging prayer
-      await this.updateStreak()
-      return result
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback')
-      // Fallback to localStorage
-      const storageKey = `prayers_${userId}`
-      const existingPrayers = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      existingPrayers.unshift(prayer)
-      localStorage.setItem(storageKey, JSON.stringify(existingPrayers))
-      
-      // Update streak after logging prayer
-      await this.updateStreak()
-      return prayer
+    const next = { ...existing, ...updates }
+    const changes: Partial<Prayer> = { ...updates, updated_at: new Date().toISOString() }
+
+    const retimed = updates.start_time !== undefined || updates.prayer_name !== undefined || updates.status !== undefined
+    if (retimed) {
+      const { location, params } = await this.getCalculationContext()
+      const derived = derivePrayerStatus(next.prayer_name, new Date(next.start_time), location, params)
+      const overridden = next.status === 'excused' || next.status === 'missed'
+      changes.prayer_date = derived.prayerDate
+      changes.status = overridden ? next.status : derived.status
+    }
+
+    if (next.end_time) {
+      const minutes = Math.round((Date.parse(next.end_time) - Date.parse(next.start_time)) / (1000 * 60))
+      changes.duration_minutes = minutes >= 0 ? minutes : undefined
     }
+
+    const result = await PrayerRepository.prayers.update(userId, prayerId, changes)
+    await RevisionService.record('updated', existing, result)
+    await this.updateStreak()
+    return result
   }
 
-  static async startPrayerTimer(prayerName: string, userId: string): Promise<Prayer> {
-    const now = new Date().toISOString()
-    const prayer: Omit<Prayer, 'id'> = {
-      user_id: userId,
-      prayer_name: prayerName,
-      start_time: now,
-      logged_at: now,
-      notes: '',
-      created_at: now,
-      updated_at: now
+  // Soft delete: the record stays, hidden, so the delete can be undone
+  static async deletePrayer(prayerId: string): Promise<Prayer> {
+    return this.setDeleted(prayerId, new Date().toISOString())
+  }
+
+  static async restorePrayer(prayerId: string): Promise<Prayer> {
+    return this.setDeleted(prayerId, null)
+  }
+
+  private static async setDeleted(prayerId: string, deletedAt: string | null): Promise<Prayer> {
+    const userId = await this.getCurrentUserId()
+    const existing = await PrayerRepository.prayers.get(userId, prayerId)
+    if (!existing) {
+      throw new Error('Prayer not found')
     }
 
-    return await blink.db.prayers.create({
-      id: `prayer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ...prayer
+    const result = await PrayerRepository.prayers.update(userId, prayerId, {
+      deleted_at: deletedAt,
+      updated_at: new Date().toISOString()
     })
+    await RevisionService.record(deletedAt ? 'deleted' : 'restored', existing, result)
+    await this.updateStreak()
+    return result
   }
 
-  static async endPrayerTimer(prayerId: string, durationMinutes: number): Promise<Prayer> {
-    const now = new Date().toISOString()
-    return await blink.db.prayers.update(prayerId, {
-      end_time: now,
-      duration_minutes: durationMinutes,
-      updated_at: now
-    })
+  // Deleted logs of one day, for restoring from the day view
+  static async getDeletedPrayers(prayerDate: string): Promise<Prayer[]> {
+    const userId = await this.getCurrentUserId()
+    const prayers = await PrayerRepository.prayers.list(userId)
+    const deleted = await this.normalizePrayers(prayers.filter(prayer => prayer.deleted_at))
+    return deleted
+      .filter(prayer => prayer.prayer_date === prayerDate)
+      .sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''))
   }
 
   // Prayer retrieval methods
-  static async getTodaysPrayers(): Promise<Prayer[]> {
+  // All of the user's prayers, newest first
+  static async getAllPrayers(): Promise<Prayer[]> {
     const userId = await this.getCurrentUserId()
-    const today = new Date()
-    const startOfToday = startOfDay(today).toISOString()
-    const endOfToday = endOfDay(today).toISOString()
+    const prayers = await PrayerRepository.prayers.list(userId)
+    const normalized = await this.normalizePrayers(prayers.filter(prayer => !prayer.deleted_at))
+    return normalized.sort((a, b) => b.logged_at.localeCompare(a.logged_at))
+  }
 
-    try {
-      return await blink.db.prayers.list({
-        where: {
-          AND: [
-            { user_id: userId },
-            { logged_at: { gte: startOfToday } },
-            { logged_at: { lte: endOfToday } }
-          ]
-        },
-        orderBy: { logged_at: 'desc' }
-      })
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback')
-      // Fallback to localStorage
-      const storageKey = `prayers_${userId}`
-      const allPrayers: Prayer[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      return allPrayers.filter(prayer => 
-        prayer.logged_at >= startOfToday && prayer.logged_at <= endOfToday
-      )
-    }
+  // Prayers belonging to today's date, including qada of today's prayers logged later
+  static async getTodaysPrayers(): Promise<Prayer[]> {
+    const { location } = await this.getCalculationContext()
+    const todayKey = getDateKey(new Date(), location.timezone)
+    const prayers = await this.getAllPrayers()
+    return prayers.filter(prayer => prayer.prayer_date === todayKey)
   }
 
   static async getPrayerHistory(limit: number = 20): Promise<Prayer[]> {
-    const userId = await this.getCurrentUserId()
-    try {
-      return await blink.db.prayers.list({
-        where: { user_id: userId },
-        orderBy: { logged_at: 'desc' },
-        limit
-      })
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback')
-      // Fallback to localStorage
-      const storageKey = `prayers_${userId}`
-      const allPrayers: Prayer[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      return allPrayers.slice(0, limit)
-    }
+    const prayers = await this.getAllPrayers()
+    return prayers.slice(0, limit)
   }
 
   static async getPrayerHistoryByDays(days: number = 30): Promise<Prayer[]> {
-    const userId = await this.getCurrentUserId()
     const endDate = new Date()
     const startDate = new Date()
     startDate.setDate(startDate.getDate() - days)
 
-    try {
-      return await blink.db.prayers.list({
-        where: {
-          AND: [
-            { user_id: userId },
-            { logged_at: { gte: startDate.toISOString() } },
-            { logged_at: { lte: endDate.toISOString() } }
-          ]
-        },
-        orderBy: { logged_at: 'desc' }
-      })
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback')
-      // Fallback to localStorage
-      const storageKey = `prayers_${userId}`
-      const allPrayers: Prayer[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      return allPrayers.filter(prayer => 
-        prayer.logged_at >= startDate.toISOString() && prayer.logged_at <= endDate.toISOString()
-      )
-    }
+    const prayers = await this.getAllPrayers()
+    return prayers.filter(prayer =>
+      prayer.logged_at >= startDate.toISOString() && prayer.logged_at <= endDate.toISOString()
+    )
   }
 
   // Streak management
-  static async getStreak(): Promise<PrayerStreak> {
-    const userId = await this.getCurrentUserId()
-    return await this.getOrCreateStreak(userId)
+  // Streaks are derived from the whole history on every read, so edits, deletes and
+  // backfills are always reflected; the stored record only caches the result
+  // History, range ending today in the user's timezone, and policy that streaks are derived from
+  private static async getStreakInputs() {
+    const [prayers, settings, { location }] = await Promise.all([
+      this.getAllPrayers(),
+      SettingsService.getSettings(),
+      this.getCalculationContext()
+    ])
+    return {
+      prayers,
+      range: { to: getDateKey(new Date(), location.timezone) },
+      policy: toStreakPolicy(settings)
+    }
   }
 
-  static async getOrCreateStreak(userId: string): Promise<PrayerStreak> {
-    try {
-      const existingStreak = await blink.db.prayer_streaks.list({
-        where: { user_id: userId },
-        limit: 1
-      })
+  static async getStreakSummary(): Promise<StreakSummary> {
+    const { prayers, range, policy } = await this.getStreakInputs()
+    return computeStreaks(prayers, range, policy)
+  }
 
-      if (existingStreak.length > 0) {
-        return existingStreak[0]
-      }
+  static async getPrayerStreaks(): Promise<PrayerConsistency[]> {
+    const { prayers, range, policy } = await this.getStreakInputs()
+    return computePrayerStreaks(prayers, range, policy)
+  }
 
-      // Create new streak record
-      const now = new Date().toISOString()
-      return await blink.db.prayer_streaks.create({
-        id: `streak_${userId}`,
-        user_id: userId,
-        current_streak: 0,
-        longest_streak: 0,
-        total_prayers: 0,
-        created_at: now,
-        updated_at: now
-      })
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback for streak')
-      // Fallback to localStorage
-      const storageKey = `streak_${userId}`
-      const existingStreak = localStorage.getItem(storageKey)
-      
-      if (existingStreak) {
-        return JSON.parse(existingStreak)
-      }
-      
-      // Create default streak
-      const defaultStreak: PrayerStreak = {
-        id: `streak_${userId}`,
-        user_id: userId,
-        current_streak: 0,
-        longest_streak: 0,
-        total_prayers: 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }
-      
-      localStorage.setItem(storageKey, JSON.stringify(defaultStreak))
-      return defaultStreak
+  static async getStreak(): Promise<PrayerStreak> {
+    const userId = await this.getCurrentUserId()
+    const [streak, summary, totalPrayers] = await Promise.all([
+      this.getOrCreateStreak(userId),
+      this.getStreakSummary(),
+      this.getTotalPrayerCount()
+    ])
+
+    const derived = {
+      current_streak: summary.current,
+      longest_streak: summary.longest,
+      last_prayer_date: summary.lastKeptDate,
+      total_prayers: totalPrayers
     }
+
+    const changed = (Object.keys(derived) as (keyof typeof derived)[]).some(key => derived[key] !== streak[key])
+    if (!changed) return streak
+    return await PrayerRepository.streaks.update(userId, streak.id, {
+      ...derived,
+      updated_at: new Date().toISOString()
+    })
   }
 
+  static async getOrCreateStreak(userId: string): Promise<PrayerStreak> {
+    const existingStreak = await PrayerRepository.streaks.list(userId)
+    if (existingStreak.length > 0) {
+      return existingStreak[0]
+    }
 
+    // Create new streak record
+    const now = new Date().toISOString()
+    return await PrayerRepository.streaks.create({
+      id: `streak_${userId}`,
+      user_id: userId,
+      current_streak: 0,
+      longest_streak: 0,
+      total_prayers: 0,
+      created_at: now,
+      updated_at: now
+    })
+  }
 
+  // Refresh the cached streak after the history changed
   static async updateStreak(): Promise<void> {
-    const userId = await this.getCurrentUserId()
     try {
-      const streak = await this.getOrCreateStreak(userId)
-      const todaysPrayers = await this.getTodaysPrayers()
-      const totalPrayers = await this.getTotalPrayerCount()
-
-      // Check if user completed all 5 prayers today
-      const uniquePrayersToday = new Set(todaysPrayers.map(p => p.prayer_name))
-      const completedToday = uniquePrayersToday.size === 5
-
-      let newCurrentStreak = streak.current_streak
-      let newLongestStreak = streak.longest_streak
-
-      if (completedToday) {
-        const today = format(new Date(), 'yyyy-MM-dd')
-        const lastPrayerDate = streak.last_prayer_date
-
-        if (lastPrayerDate) {
-          const lastDate = format(parseISO(lastPrayerDate), 'yyyy-MM-dd')
-          const yesterday = format(new Date(Date.now() - 24 * 60 * 60 * 1000), 'yyyy-MM-dd')
-
-          if (lastDate === yesterday) {
-            // Consecutive day
-            newCurrentStreak += 1
-          } else if (lastDate !== today) {
-            // Gap in streak, reset
-            newCurrentStreak = 1
-          }
-          // If lastDate === today, don't change streak (already counted today)
-        } else {
-          // First time completing all prayers
-          newCurrentStreak = 1
-        }
-
-        newLongestStreak = Math.max(newLongestStreak, newCurrentStreak)
-
-        const updatedStreak = {
-          ...streak,
-          current_streak: newCurrentStreak,
-          longest_streak: newLongestStreak,
-          last_prayer_date: new Date().toISOString(),
-          total_prayers: totalPrayers,
-          updated_at: new Date().toISOString()
-        }
-
-        try {
-          await blink.db.prayer_streaks.update(streak.id, updatedStreak)
-        } catch (dbError) {
-          console.log('Database not available, updating streak in localStorage')
-          // Fallback to localStorage
-          const storageKey = `streak_${userId}`
-          localStorage.setItem(storageKey, JSON.stringify(updatedStreak))
-        }
-      }
+      await this.getStreak()
     } catch (error) {
       console.error('Error updating streak:', error)
     }
   }
 
+  // Counts performed prayers only; missed and excused records are not prayers prayed
   static async getTotalPrayerCount(): Promise<number> {
-    const userId = await this.getCurrentUserId()
-    try {
-      const prayers = await blink.db.prayers.list({
-        where: { user_id: userId }
+    const prayers = await this.getAllPrayers()
+    return prayers.filter(isPrayerPerformed).length
+  }
+
+  // Statistics
+  // How long after the adhan prayers were performed: by prayer over the last 30 days, and week by week
+  static async getPunctualityStats(): Promise<Pick<PrayerStats, 'punctuality' | 'punctualityTrend'>> {
+    const [prayers, { location, params, weekStartsOn }] = await Promise.all([
+      this.getAllPrayers(),
+      this.getCalculationContext()
+    ])
+    const today = getDateKey(new Date(), location.timezone)
+    const trendWeeks = 8
+    const since = shiftDateKey(today, -(trendWeeks * 7))
+    const delays = getPrayerDelays(prayers.filter(prayer => prayer.prayer_date >= since), location, params)
+    const monthAgo = shiftDateKey(today, -29)
+
+    return {
+      punctuality: getPrayerPunctuality(delays.filter(({ prayer }) => prayer.prayer_date >= monthAgo)),
+      punctualityTrend: getPunctualityTrend(delays, today, trendWeeks, weekStartsOn)
+    }
+  }
+
+  // Everything a reporting window is computed from; `custom` is only read for the 'custom' preset
+  static async getReportingInputs(preset: StatsRangePreset, custom?: Partial<StatsRange>) {
+    const [prayers, { location, params, weekStartsOn }] = await Promise.all([
+      this.getAllPrayers(),
+      this.getCalculationContext()
+    ])
+    const now = new Date()
+    const today = getDateKey(now, location.timezone)
+
+    // Today's prayers still in their window aren't due yet
+    const closedToday = DAILY_PRAYERS
+      .filter(({ name }) => {
+        const window = getPrayerWindow(name, today, location, params)
+        return window !== undefined && window.end <= now
       })
-      return prayers.length
-    } catch (error) {
-      console.log('Database not available, counting prayers from localStorage')
-      // Fallback to localStorage
-      const storageKey = `prayers_${userId}`
-      const allPrayers: Prayer[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      return allPrayers.length
+      .map(({ name }) => name)
+
+    return {
+      prayers,
+      range: getStatsRange(preset, today, custom),
+      today,
+      closedToday,
+      weekStartsOn
     }
   }
 
-  // Statistics
-  static async getPrayerStats(): Promise<PrayerStats> {
-    const userId = await this.getCurrentUserId()
+  static async getChartStats(preset: StatsRangePreset, custom?: Partial<StatsRange>): Promise<PrayerChartStats> {
+    const { prayers, range, today, closedToday, weekStartsOn } = await this.getReportingInputs(preset, custom)
+
+    return {
+      range,
+      weekly: countByPeriod(prayers, range, 'week', weekStartsOn),
+      monthly: countByPeriod(prayers, range, 'month'),
+      completion: getCompletionSeries(prayers, range, today, closedToday, weekStartsOn),
+      durations: getDurationHistogram(prayers, range)
+    }
+  }
+
+  // Totals, rates and status counts cover the reporting window; streaks and punctuality keep their own ranges
+  static async getPrayerStats(preset: StatsRangePreset = '30d', custom?: Partial<StatsRange>): Promise<PrayerStats> {
     try {
-      const [prayers, streak] = await Promise.all([
-        this.getPrayerHistoryByDays(30),
-        this.getOrCreateStreak(userId)
+      const [{ prayers, range, today, closedToday }, streak, streakSummary, prayerStreaks, punctualityStats] = await Promise.all([
+        this.getReportingInputs(preset, custom),
+        this.getStreak(),
+        this.getStreakSummary(),
+        this.getPrayerStreaks(),
+        this.getPunctualityStats()
       ])
 
-      const totalPrayers = prayers.length
-      const prayersWithDuration = prayers.filter(p => p.duration_minutes)
+      const windowPrayers = prayers.filter(p => p.prayer_date >= range.from && p.prayer_date <= range.to)
+      const totalPrayers = windowPrayers.filter(p => isPrayerPerformed(p)).length
+      const statusCounts = windowPrayers.reduce((counts, p) => {
+        counts[p.status] += 1
+        return counts
+      }, emptyStatusCounts())
+      const prayersWithDuration = windowPrayers.filter(p => p.duration_minutes)
       const averageDuration = prayersWithDuration.length > 0
         ? prayersWithDuration.reduce((sum, p) => sum + (p.duration_minutes || 0), 0) / prayersWithDuration.length
         : 0
 
-      // Calculate weekly stats
-      const weekStart = startOfWeek(new Date())
-      const weekEnd = endOfWeek(new Date())
-      const daysInWeek = eachDayOfInterval({ start: weekStart, end: weekEnd })
-
-      const weeklyStats = daysInWeek.map(day => {
-        const dayStart = startOfDay(day).toISOString()
-        const dayEnd = endOfDay(day).toISOString()
-        const dayPrayers = prayers.filter(p => 
-          p.logged_at >= dayStart && p.logged_at <= dayEnd
-        )
-        const uniquePrayers = new Set(dayPrayers.map(p => p.prayer_name))
-        
-        return {
-          date: format(day, 'EEE'),
-          completed: uniquePrayers.size,
-          total: 5
-        }
-      })
-
-      // Calculate completion rate (percentage of days with all 5 prayers)
-      const completeDays = weeklyStats.filter(day => day.completed === 5).length
-      const completionRate = (completeDays / 7) * 100
-
       return {
+        range,
         totalPrayers,
         currentStreak: streak.current_streak,
         longestStreak: streak.longest_streak,
+        freezeTokens: streakSummary.freezeTokens,
+        streakDays: streakSummary.days.slice(-30),
+        prayerStreaks,
+        ...punctualityStats,
         averageDuration: Math.round(averageDuration),
-        completionRate: Math.round(completionRate),
-        weeklyStats
+        ...getCompletionMetrics(prayers, range, today, closedToday),
+        statusCounts
       }
     } catch (error) {
       console.error('Error getting prayer stats:', error)
-      // Return default stats with proper weekly structure
-      const weekStart = startOfWeek(new Date())
-      const weekEnd = endOfWeek(new Date())
-      const daysInWeek = eachDayOfInterval({ start: weekStart, end: weekEnd })
-      
-      const defaultWeeklyStats = daysInWeek.map(day => ({
-        date: format(day, 'EEE'),
-        completed: 0,
-        total: 5
-      }))
-
+      const noRate = { count: 0, total: 0, rate: 0 }
+      // The range still ends on the location's today where that can be read
+      const timezone = await this.getCalculationContext()
+        .then(({ location }) => location.timezone)
+        .catch(() => getDeviceTimezone())
       return {
+        range: getStatsRange(preset, getDateKey(new Date(), timezone), custom),
         totalPrayers: 0,
         currentStreak: 0,
         longestStreak: 0,
+        freezeTokens: 0,
+        streakDays: [],
+        prayerStreaks: [],
+        punctuality: [],
+        punctualityTrend: [],
         averageDuration: 0,
-        completionRate: 0,
-        weeklyStats: defaultWeeklyStats
+        prayerCompletion: noRate,
+        dayCompletion: noRate,
+        onTimeRate: noRate,
+        statusCounts: emptyStatusCounts()
       }
     }
   }
 
   // Reminder management
-  static async createReminder(prayerName: string, reminderTime: string): Promise<PrayerReminder> {
+  // Relative reminders follow the computed prayer times; `reminder_time` is only read for absolute ones
+  static async createReminder(
+    prayerName: string,
+    timing: Pick<PrayerReminder, 'anchor' | 'offset_minutes' | 'reminder_time'>
+  ): Promise<PrayerReminder> {
     const userId = await this.getCurrentUserId()
     const now = new Date().toISOString()
     const reminder: PrayerReminder = {
       id: `reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       user_id: userId,
       prayer_name: prayerName,
-      reminder_time: reminderTime,
+      anchor: timing.anchor,
+      offset_minutes: timing.offset_minutes,
+      reminder_time: timing.reminder_time,
       is_enabled: "1",
       days_of_week: "1,2,3,4,5,6,7", // All days by default
       created_at: now,
       updated_at: now
     }
 
-    try {
-      return await blink.db.prayer_reminders.create(reminder)
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback for reminders')
-      // Fallback to localStorage
-      const storageKey = `reminders_${userId}`
-      const existingReminders = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      existingReminders.push(reminder)
-      localStorage.setItem(storageKey, JSON.stringify(existingReminders))
-      return reminder
-    }
+    return await PrayerRepository.reminders.create(reminder)
   }
 
   static async getUserReminders(): Promise<PrayerReminder[]> {
     const userId = await this.getCurrentUserId()
-    try {
-      return await blink.db.prayer_reminders.list({
-        where: { user_id: userId },
-        orderBy: { reminder_time: 'asc' }
-      })
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback for reminders')
-      // Fallback to localStorage
-      const storageKey = `reminders_${userId}`
-      const reminders: PrayerReminder[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      return reminders.sort((a, b) => a.reminder_time.localeCompare(b.reminder_time))
+    const reminders = await PrayerRepository.reminders.list(userId)
+    return reminders.sort(compareReminders)
+  }
+
+  // One reminder per daily prayer at its adhan, for users without any
+  static async createDefaultReminders(): Promise<PrayerReminder[]> {
+    const { location, params } = await this.getCalculationContext()
+    const prayerTimes = getReminderTimes(calculatePrayerTimes(new Date(), location, params), location.timezone)
+    const reminders: PrayerReminder[] = []
+    for (const prayer of DAILY_PRAYERS) {
+      reminders.push(await this.createReminder(prayer.name, {
+        anchor: 'adhan',
+        offset_minutes: 0,
+        reminder_time: prayerTimes[prayer.name] // Starting point if switched to a set time
+      }))
     }
+    return reminders
   }
 
   static async updateReminder(reminderId: string, updates: Partial<PrayerReminder>): Promise<PrayerReminder> {
     const userId = await this.getCurrentUserId()
-    const updatedReminder = {
+    return await PrayerRepository.reminders.update(userId, reminderId, {
       ...updates,
       updated_at: new Date().toISOString()
-    }
-
-    try {
-      return await blink.db.prayer_reminders.update(reminderId, updatedReminder)
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback for reminder update')
-      // Fallback to localStorage
-      const storageKey = `reminders_${userId}`
-      const reminders: PrayerReminder[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      const index = reminders.findIndex(r => r.id === reminderId)
-      if (index !== -1) {
-        reminders[index] = { ...reminders[index], ...updatedReminder }
-        localStorage.setItem(storageKey, JSON.stringify(reminders))
-        return reminders[index]
-      }
-      throw new Error('Reminder not found')
-    }
+    })
   }
 
   static async deleteReminder(reminderId: string): Promise<void> {
     const userId = await this.getCurrentUserId()
-    try {
-      await blink.db.prayer_reminders.delete(reminderId)
-    } catch (error) {
-      console.log('Database not available, using localStorage fallback for reminder deletion')
-      // Fallback to localStorage
-      const storageKey = `reminders_${userId}`
-      const reminders: PrayerReminder[] = JSON.parse(localStorage.getItem(storageKey) || '[]')
-      const filteredReminders = reminders.filter(r => r.id !== reminderId)
-      localStorage.setItem(storageKey, JSON.stringify(filteredReminders))
-    }
+    await PrayerRepository.reminders.remove(userId, reminderId)
   }
 
   // Notification helpers
-  static checkForDueReminders(reminders: PrayerReminder[]): PrayerReminder[] {
-    const now = new Date()
-    const currentTime = format(now, 'HH:mm')
-    const currentDay = now.getDay() || 7 // Convert Sunday (0) to 7
-
-    return reminders.filter(reminder => {
-      if (Number(reminder.is_enabled) === 0) return false
-      
-      const daysOfWeek = reminder.days_of_week.split(',').map(d => parseInt(d))
-      if (!daysOfWeek.includes(currentDay)) return false
-      
-      return reminder.reminder_time === currentTime
-    })
-  }
-
   static requestNotificationPermission(): Promise<NotificationPermission> {
     if (!('Notification' in window)) {
       return Promise.resolve('denied')
@@ -459,16 +469,4 @@ export class PrayerService {
     
     return Notification.requestPermission()
   }
-
-  static showNotification(prayerName: string): void {
-    if (Notification.permission === 'granted') {
-      new Notification(`Time for ${prayerName} Prayer`, {
-        body: `It's time for your ${prayerName} prayer. May Allah accept your prayers.`,
-        icon: '/favicon.svg',
-        badge: '/favicon.svg',
-        tag: `prayer-${prayerName}`,
-        requireInteraction: true
-      })
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { blink } from '../blink/client'
+import { QadaBacklog, QadaBalance, QadaRepayment, DAILY_PRAYERS } from '../types/prayer'
+import { PrayerService } from './prayerService'
+import { PrayerRepository } from './prayerRepository'
+import { countMissedPrayers, getQadaBalance } from '../lib/qadaLedger'
+
+export class QadaService {
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  private static createDefaultBacklog(userId: string, prayerName: string): QadaBacklog {
+    const now = new Date().toISOString()
+    return {
+      id: `qada_${userId}_${prayerName.toLowerCase()}`,
+      user_id: userId,
+      prayer_name: prayerName,
+      estimated_count: 0,
+      accrue_missed: "1",
+      daily_target: 0,
+      created_at: now,
+      updated_at: now
+    }
+  }
+
+  // One backlog per daily prayer, in prayer order
+  static async getBacklogs(): Promise<QadaBacklog[]> {
+    const userId = await this.getCurrentUserId()
+    const backlogs = await PrayerRepository.qadaBacklogs.list(userId)
+
+    return DAILY_PRAYERS.map(prayer =>
+      backlogs.find(b => b.prayer_name === prayer.name) || this.createDefaultBacklog(userId, prayer.name)
+    )
+  }
+
+  static async updateBacklog(prayerName: string, updates: Partial<QadaBacklog>): Promise<QadaBacklog> {
+    const userId = await this.getCurrentUserId()
+    const backlogs = await this.getBacklogs()
+    const existingBacklog = backlogs.find(b => b.prayer_name === prayerName)
+      || this.createDefaultBacklog(userId, prayerName)
+
+    return await PrayerRepository.qadaBacklogs.upsert({
+      ...existingBacklog,
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  static async getRepayments(): Promise<QadaRepayment[]> {
+    const userId = await this.getCurrentUserId()
+    const repayments = await PrayerRepository.qadaRepayments.list(userId)
+    return repayments.sort((a, b) => b.repaid_at.localeCompare(a.repaid_at))
+  }
+
+  static async logRepayment(prayerName: string, count: number = 1): Promise<QadaRepayment> {
+    const userId = await this.getCurrentUserId()
+    const now = new Date().toISOString()
+    const repayment: QadaRepayment = {
+      id: `qada_repayment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      user_id: userId,
+      prayer_name: prayerName,
+      count,
+      repaid_at: now,
+      created_at: now
+    }
+
+    return await PrayerRepository.qadaRepayments.create(repayment)
+  }
+
+  static async deleteRepayment(repaymentId: string): Promise<void> {
+    const userId = await this.getCurrentUserId()
+    await PrayerRepository.qadaRepayments.remove(userId, repaymentId)
+  }
+
+  // Remaining balance per prayer: estimate + missed prayers (if accruing) - repayments
+  static async getBalances(): Promise<QadaBalance[]> {
+    const [backlogs, repayments, prayers] = await Promise.all([
+      this.getBacklogs(),
+      this.getRepayments(),
+      PrayerService.getAllPrayers()
+    ])
+    const missedCounts = countMissedPrayers(prayers)
+    return backlogs.map(backlog => getQadaBalance(backlog, missedCounts, repayments))
+  }
+}
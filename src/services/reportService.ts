@@ -0,0 +1,24 @@
+import { PrayerReport, ReportRange, buildPrayerReport } from '../lib/report'
+import { PrayerService } from './prayerService'
+import { QadaService } from './qadaService'
+
+export class ReportService {
+  // Gather one range's history, streaks and qada balances into a printable report
+  static async getReport(range: ReportRange): Promise<PrayerReport> {
+    const [{ prayers, today, closedToday, weekStartsOn }, streakSummary, qadaBalances] = await Promise.all([
+      PrayerService.getReportingInputs('custom', range),
+      PrayerService.getStreakSummary(),
+      QadaService.getBalances()
+    ])
+
+    return buildPrayerReport({
+      prayers,
+      range,
+      today,
+      closedToday,
+      weekStartsOn,
+      streakDays: streakSummary.days,
+      qadaBalances
+    })
+  }
+}
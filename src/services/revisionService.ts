@@ -0,0 +1,42 @@
+import { blink } from '../blink/client'
+import { Prayer, PrayerRevision, PrayerRevisionAction } from '../types/prayer'
+import { diffPrayer } from '../lib/revisions'
+import { PrayerRepository } from './prayerRepository'
+
+export class RevisionService {
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  // Append a revision for a change from `before` (null when just created) to `after`.
+  // The change itself has already been saved, so a failure here is logged, not thrown.
+  static async record(action: PrayerRevisionAction, before: Prayer | null, after: Prayer): Promise<void> {
+    try {
+      const changes = diffPrayer(before || {}, after)
+      if (action === 'updated' && Object.keys(changes).length === 0) return
+
+      const userId = await this.getCurrentUserId()
+      await PrayerRepository.revisions.create({
+        id: `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        user_id: userId,
+        prayer_id: after.id,
+        action,
+        changes: JSON.stringify(changes),
+        created_at: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Failed to record prayer revision:', error)
+    }
+  }
+
+  // Newest first
+  static async getRevisions(prayerId: string): Promise<PrayerRevision[]> {
+    const userId = await this.getCurrentUserId()
+    const revisions = await PrayerRepository.revisions.list(userId)
+    return revisions
+      .filter(revision => revision.prayer_id === prayerId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+  }
+}
@@ -0,0 +1,63 @@
+import { blink } from '../blink/client'
+import { PrayerSettings } from '../types/prayer'
+import { DEFAULT_CALCULATION_PARAMS } from '../lib/calculationMethods'
+import { DEFAULT_STREAK_POLICY } from '../lib/streaks'
+import { DEFAULT_WEEK_START } from '../lib/chartStats'
+import { DEFAULT_FOLLOW_UP_STEPS } from '../lib/reminders'
+import { DEFAULT_AUDIO_POLICY } from '../lib/reminderSounds'
+import { PrayerRepository } from './prayerRepository'
+
+export class SettingsService {
+  // Get current user ID
+  private static async getCurrentUserId(): Promise<string> {
+    const user = await blink.auth.me()
+    return user.id
+  }
+
+  private static createDefaultSettings(userId: string): PrayerSettings {
+    const now = new Date().toISOString()
+    return {
+      id: `settings_${userId}`,
+      user_id: userId,
+      calculation_method: DEFAULT_CALCULATION_PARAMS.method,
+      asr_madhab: DEFAULT_CALCULATION_PARAMS.madhab,
+      high_latitude_rule: DEFAULT_CALCULATION_PARAMS.highLatitudeRule,
+      time_offsets: '{}',
+      streak_mode: DEFAULT_STREAK_POLICY.mode,
+      streak_grace_days: DEFAULT_STREAK_POLICY.graceDaysPerMonth,
+      streak_freeze_every: DEFAULT_STREAK_POLICY.freezeEvery,
+      week_starts_on: DEFAULT_WEEK_START,
+      follow_up_steps: JSON.stringify(DEFAULT_FOLLOW_UP_STEPS),
+      reminder_sounds: '{}',
+      reminder_volume: DEFAULT_AUDIO_POLICY.volume,
+      reminder_fade_in: DEFAULT_AUDIO_POLICY.fadeInSeconds,
+      created_at: now,
+      updated_at: now
+    }
+  }
+
+  static async getSettings(): Promise<PrayerSettings> {
+    const userId = await this.getCurrentUserId()
+    const existingSettings = await PrayerRepository.settings.list(userId)
+
+    if (existingSettings.length > 0) {
+      // Fill in fields added since the settings were first saved
+      return { ...this.createDefaultSettings(userId), ...existingSettings[0] }
+    }
+
+    // Settings saved to localStorage by older versions, until the migration has moved them
+    const [legacySettings] = PrayerRepository.settings.readLegacyStorage(userId)
+    return await PrayerRepository.settings.create({ ...this.createDefaultSettings(userId), ...legacySettings })
+  }
+
+  static async updateSettings(updates: Partial<PrayerSettings>): Promise<PrayerSettings> {
+    const settings = await this.getSettings()
+    const updatedSettings: PrayerSettings = {
+      ...settings,
+      ...updates,
+      updated_at: new Date().toISOString()
+    }
+
+    return await PrayerRepository.settings.upsert(updatedSettings)
+  }
+}
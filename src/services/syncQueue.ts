@@ -0,0 +1,221 @@
+import { blink } from '../blink/client'
+import {
+  PendingMutation,
+  addPendingMutation,
+  getPendingMutations,
+  removePendingMutation,
+  updatePendingMutation
+} from '../lib/localStore'
+import { FieldConflict, parseFieldClocks, resolveFieldUpdates } from '../lib/conflicts'
+
+const BASE_RETRY_MS = 5 * 1000
+const MAX_RETRY_MS = 15 * 60 * 1000
+
+export interface SyncStatus {
+  pending: number
+  syncing: boolean
+  online: boolean
+  lastError?: string
+  lastSyncedAt?: string
+}
+
+type SyncListener = (status: SyncStatus) => void
+
+type MutationInput = Pick<PendingMutation, 'table' | 'type' | 'record_id' | 'user_id' | 'data' | 'base_clocks'>
+
+type ConflictListener = (conflict: FieldConflict) => void
+
+// Exponential backoff with jitter: ~5s, 10s, 20s ... capped at 15 minutes
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.round(delay * (0.75 + Math.random() * 0.5))
+}
+
+/**
+ * Replays the IndexedDB outbox against blink.db in the order mutations were
+ * made. A failed mutation is retried with backoff and holds back any later
+ * mutations of the same record; other records keep syncing. Updates are merged
+ * field by field with the server copy, last writer (by HLC) wins.
+ */
+export class SyncQueue {
+  private static status: SyncStatus = {
+    pending: 0,
+    syncing: false,
+    online: typeof navigator === 'undefined' ? true : navigator.onLine
+  }
+  private static listeners = new Set<SyncListener>()
+  private static conflictListeners = new Set<ConflictListener>()
+  private static flushing: Promise<void> | null = null
+  private static flushRequested = false
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null
+  private static started = false
+
+  static start(): void {
+    if (this.started) return
+    this.started = true
+
+    window.addEventListener('online', () => {
+      this.setStatus({ online: true })
+      this.flush()
+    })
+    window.addEventListener('offline', () => this.setStatus({ online: false }))
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.flush()
+    })
+
+    this.flush()
+  }
+
+  static getStatus(): SyncStatus {
+    return this.status
+  }
+
+  static subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener)
+    listener(this.status)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Called when field-level merging overrides a reviewed field edited on two devices
+  static onConflict(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener)
+    return () => {
+      this.conflictListeners.delete(listener)
+    }
+  }
+
+  static async enqueue(mutation: MutationInput): Promise<void> {
+    await addPendingMutation({
+      ...mutation,
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      created_at: new Date().toISOString()
+    })
+    this.setStatus({ pending: this.status.pending + 1 })
+    this.flush()
+  }
+
+  // Records with local changes the server has not seen yet
+  static async getPendingRecordIds(table: string): Promise<Set<string>> {
+    const mutations = await getPendingMutations()
+    return new Set(mutations.filter(m => m.table === table).map(m => m.record_id))
+  }
+
+  static flush(): Promise<void> {
+    if (this.flushing) {
+      // Pick up mutations queued after the running pass read the outbox
+      this.flushRequested = true
+      return this.flushing
+    }
+
+    this.flushing = this.replay()
+      .catch(error => console.error('Failed to sync pending changes:', error))
+      .finally(() => {
+        this.flushing = null
+        this.setStatus({ syncing: false })
+        if (this.flushRequested) {
+          this.flushRequested = false
+          this.flush()
+        }
+      })
+    return this.flushing
+  }
+
+  private static async replay(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    const mutations = await getPendingMutations()
+    this.setStatus({ pending: mutations.length })
+    if (mutations.length === 0 || !navigator.onLine) return
+
+    this.setStatus({ syncing: true })
+    const blocked = new Set<string>()
+    let remaining = mutations.length
+    let nextAttemptAt = Infinity
+
+    for (const mutation of mutations) {
+      const recordKey = `${mutation.table}:${mutation.record_id}`
+      if (blocked.has(recordKey)) continue
+
+      if (mutation.next_attempt_at > Date.now()) {
+        blocked.add(recordKey)
+        nextAttemptAt = Math.min(nextAttemptAt, mutation.next_attempt_at)
+        continue
+      }
+
+      try {
+        await this.apply(mutation)
+        await removePendingMutation(mutation.id as number)
+        remaining -= 1
+        this.setStatus({ pending: remaining, lastError: undefined, lastSyncedAt: new Date().toISOString() })
+      } catch (error) {
+        const attempts = mutation.attempts + 1
+        const retryAt = Date.now() + getRetryDelay(attempts)
+        await updatePendingMutation({
+          ...mutation,
+          attempts,
+          next_attempt_at: retryAt,
+          last_error: error instanceof Error ? error.message : String(error)
+        })
+        blocked.add(recordKey)
+        nextAttemptAt = Math.min(nextAttemptAt, retryAt)
+        this.setStatus({ lastError: error instanceof Error ? error.message : 'Sync failed' })
+
+        // Nothing else will get through while the connection is down
+        if (!navigator.onLine) break
+      }
+    }
+
+    if (remaining > 0 && nextAttemptAt !== Infinity) {
+      this.retryTimer = setTimeout(() => this.flush(), Math.max(0, nextAttemptAt - Date.now()))
+    }
+  }
+
+  private static async apply(mutation: PendingMutation): Promise<void> {
+    const table = blink.db.table(mutation.table)
+    switch (mutation.type) {
+      case 'create':
+        // Upsert, so a create whose response was lost can be replayed safely
+        await table.upsert(mutation.data || {})
+        break
+      case 'update': {
+        const updates = mutation.data || {}
+        // Updates queued before field clocks existed are written as they are
+        if (!updates.field_clocks) {
+          await table.update(mutation.record_id, updates)
+          break
+        }
+
+        const remote = await table.get(mutation.record_id)
+        // Deleted on another device; the delete wins
+        if (!remote) break
+
+        const { data, conflicts } = resolveFieldUpdates(
+          mutation.table,
+          mutation.record_id,
+          updates,
+          parseFieldClocks(mutation.base_clocks),
+          remote
+        )
+        if (Object.keys(data).length > 0) {
+          await table.update(mutation.record_id, data)
+        }
+        conflicts.forEach(conflict => this.conflictListeners.forEach(listener => listener(conflict)))
+        break
+      }
+      case 'delete':
+        await table.delete(mutation.record_id)
+        break
+    }
+  }
+
+  private static setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates }
+    this.listeners.forEach(listener => listener(this.status))
+  }
+}
@@ -0,0 +1,409 @@
+/// <reference lib="webworker" />
+// Service worker: shows prayer reminders while the app is backgrounded or closed.
+// Notification Triggers schedule them ahead where the browser supports it;
+// elsewhere the worker delivers whatever came due each time it is woken, by
+// periodic background sync or by the page. Follow-ups are only delivered on a
+// wake-up, once prayers were pulled from blink.db after they came due, or
+// against this device's own logs when no open page can pull.
+
+import { Prayer } from './types/prayer'
+import { ScheduledReminder, getLoggedPrayerKeys, getRemindersBetween, isReminderResolved } from './lib/reminders'
+import {
+  addPendingMutation,
+  getLocalRecords,
+  getLocalValue,
+  getPulledAtKey,
+  putLocalRecords,
+  setLocalValue
+} from './lib/localStore'
+import { createPrayerRecord, isPrayerDue, isPrayerPerformed } from './lib/prayerStatus'
+import { stampFields } from './lib/conflicts'
+import { nextHlc } from './lib/hlc'
+import { diffPrayer } from './lib/revisions'
+import { formatTimeInZone } from './lib/timezone'
+import {
+  ClientMessage,
+  FOLLOW_UPS_UNTIL_KEY,
+  LAST_CHECK_KEY,
+  MAX_LATENESS_MS,
+  PERIODIC_SYNC_TAG,
+  REMINDER_ACTIONS,
+  ReminderAction,
+  ReminderNotificationData,
+  ReminderNotificationOptions,
+  ReminderSchedule,
+  SCHEDULE_KEY,
+  SNOOZES_KEY,
+  SNOOZE_MS,
+  ServiceWorkerMessage,
+  SnoozedReminder,
+  TIMER_PARAM,
+  TRIGGERS_UNTIL_KEY,
+  TRIGGER_HORIZON_MS,
+  getReminderActions,
+  getReminderNotification
+} from './lib/notificationSchedule'
+
+declare const self: ServiceWorkerGlobalScope
+
+// Notification Triggers, periodic sync and maxActions are not in the TypeScript DOM libs yet
+declare const TimestampTrigger: { new (timestamp: number): object } | undefined
+
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string
+}
+
+const supportsTriggers = () => typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype
+
+const canNotify = () => Notification.permission === 'granted'
+
+async function getSchedule(): Promise<ReminderSchedule | null> {
+  const schedule = await getLocalValue<ReminderSchedule>(SCHEDULE_KEY)
+  return schedule && schedule.reminders.length > 0 ? schedule : null
+}
+
+// Snoozes resolved against the current reminders; a deleted or disabled reminder drops its snooze
+async function getSnoozedReminders(schedule: ReminderSchedule): Promise<ScheduledReminder[]> {
+  const snoozes = await getLocalValue<SnoozedReminder[]>(SNOOZES_KEY) || []
+  return snoozes.flatMap(snooze => {
+    const reminder = schedule.reminders.find(item => item.id === snooze.reminder_id && Number(item.is_enabled) === 1)
+    return reminder ? [{ reminder, date: snooze.date, at: new Date(snooze.at) }] : []
+  })
+}
+
+/**
+ * Prayers logged as far as this device knows: its own logs straight away, and
+ * other devices' once the app has pulled them into the local store.
+ */
+async function getLoggedPrayers(schedule: ReminderSchedule): Promise<Set<string>> {
+  return getLoggedPrayerKeys(await getLocalRecords<Prayer>('prayers', schedule.reminders[0].user_id))
+}
+
+// When the app last pulled prayers from blink.db; this worker can't reach it itself
+async function getPrayersPulledAt(schedule: ReminderSchedule): Promise<Date | null> {
+  const pulledAt = await getLocalValue<string>(getPulledAtKey('prayers', schedule.reminders[0].user_id))
+  return pulledAt ? new Date(pulledAt) : null
+}
+
+// Reminders and snoozes that fire in (from, until], in firing order
+async function getRemindersDue(schedule: ReminderSchedule, from: Date, until: Date): Promise<ScheduledReminder[]> {
+  const snoozed = await getSnoozedReminders(schedule)
+  return [
+    ...getRemindersBetween(schedule.reminders, from, until, schedule.location, schedule.params),
+    ...snoozed.filter(({ at }) => at > from && at <= until)
+  ].sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+// Follow-ups that fire in (from, until], less those for prayers already logged
+async function getFollowUpsDue(schedule: ReminderSchedule, from: Date, until: Date): Promise<ScheduledReminder[]> {
+  const logged = await getLoggedPrayers(schedule)
+  return getRemindersBetween(schedule.reminders, from, until, schedule.location, schedule.params, schedule.follow_up_steps || [])
+    .filter(scheduled => scheduled.followUp && !isReminderResolved(scheduled, logged))
+}
+
+// Takes down follow-ups already on screen once their prayer is logged
+async function closeResolvedFollowUps(): Promise<void> {
+  const schedule = await getSchedule()
+  if (!schedule) return
+
+  const logged = await getLoggedPrayers(schedule)
+  const shown = await self.registration.getNotifications()
+  shown
+    .filter(notification => {
+      const data = notification.data as ReminderNotificationData | undefined
+      return data?.follow_up && logged.has(`${data.date}:${data.prayer_name}`)
+    })
+    .forEach(notification => notification.close())
+}
+
+// A follow-up replaces the earlier ones for its prayer
+async function showReminder(scheduled: ScheduledReminder, trigger: boolean = false): Promise<void> {
+  const { title, options } = getReminderNotification(scheduled)
+  if (scheduled.followUp) {
+    const shown = await self.registration.getNotifications()
+    shown
+      .filter(notification => {
+        const data = notification.data as ReminderNotificationData | undefined
+        return data?.follow_up && data.date === scheduled.date && data.prayer_name === scheduled.reminder.prayer_name
+      })
+      .forEach(notification => notification.close())
+  }
+
+  const notification: ReminderNotificationOptions = {
+    ...options,
+    // Only the worker's notifications handle the tap; the page's and the toast don't
+    body: options.data.opens_timer ? `${options.body} Tap to time your prayer.` : options.body,
+    actions: getReminderActions(scheduled.reminder)
+      .slice(0, (Notification as { maxActions?: number }).maxActions || 2)
+      .map((action: ReminderAction) => ({ action, title: REMINDER_ACTIONS[action].title }))
+  }
+  if (trigger) {
+    notification.showTrigger = new TimestampTrigger!(scheduled.at.getTime())
+  }
+  return self.registration.showNotification(title, notification)
+}
+
+async function postToWindows(message: ClientMessage): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  windows.forEach(client => client.postMessage(message))
+}
+
+/**
+ * Replaces the pending triggered notifications with the reminders of the next
+ * TRIGGER_HORIZON_MS. Anything already shown is left alone.
+ */
+async function scheduleTriggers(): Promise<void> {
+  if (!supportsTriggers() || !canNotify()) return
+
+  const pending = await self.registration.getNotifications({ includeTriggered: true } as GetNotificationOptions)
+  pending
+    .filter(notification => {
+      const data = notification.data as ReminderNotificationData | undefined
+      return data?.reminder_id && new Date(data.at) > new Date()
+    })
+    .forEach(notification => notification.close())
+
+  const schedule = await getSchedule()
+  if (!schedule) {
+    await setLocalValue(TRIGGERS_UNTIL_KEY, null)
+    return
+  }
+
+  const now = new Date()
+  const until = new Date(now.getTime() + TRIGGER_HORIZON_MS)
+  const upcoming = await getRemindersDue(schedule, now, until)
+  await Promise.all(upcoming.map(scheduled => showReminder(scheduled, true)))
+  await setLocalValue(TRIGGERS_UNTIL_KEY, until.toISOString())
+}
+
+/**
+ * Shows reminders that came due since the last check, skipping any the
+ * browser already fired from a trigger and any too stale to be useful.
+ */
+async function deliverDueReminders(): Promise<void> {
+  const now = new Date()
+  const [schedule, lastCheck, triggersUntil] = await Promise.all([
+    getSchedule(),
+    getLocalValue<string>(LAST_CHECK_KEY),
+    getLocalValue<string>(TRIGGERS_UNTIL_KEY)
+  ])
+  await setLocalValue(LAST_CHECK_KEY, now.toISOString())
+  if (!schedule || !canNotify()) return
+
+  // The first check only looks forward, so installing never replays old reminders
+  const since = new Date(Math.max(
+    lastCheck ? new Date(lastCheck).getTime() : now.getTime(),
+    triggersUntil ? new Date(triggersUntil).getTime() : 0,
+    now.getTime() - MAX_LATENESS_MS
+  ))
+  const due = await getRemindersDue(schedule, since, now)
+  await Promise.all(due.map(scheduled => showReminder(scheduled)))
+  await deliverDueFollowUps(schedule, now)
+}
+
+/**
+ * Shows follow-ups up to the last pull of prayers from blink.db, so one is
+ * never shown for a prayer logged on another device. Follow-ups due after the
+ * pull wait for the next one, which an open page is asked to make now. With no
+ * page open, or offline, no pull is coming, so they go out against the prayers
+ * this device knows of rather than not at all.
+ */
+async function deliverDueFollowUps(schedule: ReminderSchedule, now: Date): Promise<void> {
+  const [followUpsUntil, pulledAt, windows] = await Promise.all([
+    getLocalValue<string>(FOLLOW_UPS_UNTIL_KEY),
+    getPrayersPulledAt(schedule),
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  ])
+  if (!followUpsUntil) {
+    await setLocalValue(FOLLOW_UPS_UNTIL_KEY, now.toISOString())
+    return
+  }
+
+  const canPull = windows.length > 0 && navigator.onLine
+  const since = new Date(Math.max(new Date(followUpsUntil).getTime(), now.getTime() - MAX_LATENESS_MS))
+  const verifiedUntil = canPull
+    ? new Date(Math.min(now.getTime(), pulledAt ? pulledAt.getTime() : 0))
+    : now
+  if (verifiedUntil > since) {
+    const due = await getFollowUpsDue(schedule, since, verifiedUntil)
+    await Promise.all(due.map(scheduled => showReminder(scheduled)))
+    await setLocalValue(FOLLOW_UPS_UNTIL_KEY, verifiedUntil.toISOString())
+  }
+
+  if (!canPull) return
+  const waiting = await getFollowUpsDue(schedule, new Date(Math.max(since.getTime(), verifiedUntil.getTime())), now)
+  if (waiting.length > 0) {
+    await postToWindows({ type: 'pull' })
+  }
+}
+
+async function refresh(): Promise<void> {
+  await scheduleTriggers()
+  await closeResolvedFollowUps()
+  await deliverDueReminders()
+}
+
+async function snooze(data: ReminderNotificationData): Promise<void> {
+  const at = new Date(Date.now() + SNOOZE_MS)
+  const snoozes = await getLocalValue<SnoozedReminder[]>(SNOOZES_KEY) || []
+  await setLocalValue(SNOOZES_KEY, [
+    // Snoozes long past are no use to anyone
+    ...snoozes.filter(item => new Date(item.at).getTime() > Date.now() - MAX_LATENESS_MS),
+    { reminder_id: data.reminder_id, date: data.date, at: at.toISOString() }
+  ])
+
+  if (supportsTriggers()) {
+    await scheduleTriggers()
+  } else {
+    // An open page can wake the worker on time; otherwise periodic sync delivers it
+    await postToWindows({ type: 'wake', at: at.toISOString() })
+  }
+}
+
+/**
+ * Logs the prayer straight into the local store and its outbox, the same
+ * records PrayerRepository writes. The blink client can't run here, so the app
+ * syncs them the next time it is open; a prayer already logged is left alone.
+ */
+async function logPrayer(data: ReminderNotificationData): Promise<void> {
+  const schedule = await getSchedule()
+  if (!schedule) return
+
+  const now = new Date()
+  // A notification left open past midnight can be for a prayer not due yet today
+  if (!isPrayerDue(data.prayer_name, now, schedule.location, schedule.params)) return
+
+  const prayers = await getLocalRecords<Prayer>('prayers', data.user_id)
+  const prayer = createPrayerRecord(data.user_id, data.prayer_name, schedule.location, schedule.params, now)
+  const alreadyLogged = prayers.some(item =>
+    item.prayer_name === prayer.prayer_name && item.prayer_date === prayer.prayer_date && isPrayerPerformed(item)
+  )
+
+  if (!alreadyLogged) {
+    const revision = {
+      id: `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      user_id: data.user_id,
+      prayer_id: prayer.id,
+      action: 'created',
+      changes: JSON.stringify(diffPrayer({}, prayer)),
+      created_at: now.toISOString()
+    }
+    for (const [table, record] of [['prayers', prayer], ['prayer_revisions', revision]] as const) {
+      const stamped = { ...record, field_clocks: JSON.stringify(stampFields({}, Object.keys(record), nextHlc())) }
+      await addPendingMutation({
+        table,
+        type: 'create',
+        record_id: record.id,
+        user_id: record.user_id,
+        data: { ...stamped },
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        created_at: now.toISOString()
+      })
+      await putLocalRecords(table, [stamped])
+    }
+    await postToWindows({ type: 'prayer-logged', prayer_name: data.prayer_name })
+    // Withdraw the follow-ups this answers, shown or still scheduled
+    await refresh()
+  }
+
+  await self.registration.showNotification(`${data.prayer_name} logged`, {
+    body: alreadyLogged
+      ? `${data.prayer_name} was already logged for today.`
+      : `Marked as prayed at ${formatTimeInZone(now, schedule.location.timezone)}. May Allah accept it.`,
+    icon: '/favicon.svg',
+    badge: '/favicon.svg',
+    tag: `logged:${data.prayer_name}`
+  })
+}
+
+// Focuses an open window, or opens one, at `url`
+async function openApp(url: string, message?: ClientMessage): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  if (windows.length > 0) {
+    const client = await windows[0].focus()
+    if (message) client.postMessage(message)
+    return
+  }
+  await self.clients.openWindow(url)
+}
+
+async function handleMessage(message: ServiceWorkerMessage): Promise<void> {
+  switch (message.type) {
+    case 'schedule':
+      await setLocalValue(SCHEDULE_KEY, message.schedule)
+      await refresh()
+      break
+    case 'check':
+      await deliverDueReminders()
+      break
+    case 'prayers-changed':
+      await refresh()
+      break
+    case 'test':
+      await self.registration.showNotification(`Time for ${message.prayerName} Prayer`, {
+        body: `This is how your ${message.prayerName} reminders will look.`,
+        icon: '/favicon.svg',
+        badge: '/favicon.svg',
+        tag: `test:${message.prayerName}`
+      })
+      break
+  }
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim().then(refresh))
+})
+
+self.addEventListener('message', (event) => {
+  event.waitUntil(handleMessage(event.data as ServiceWorkerMessage).catch(error => {
+    console.error('Failed to handle service worker message:', error)
+  }))
+})
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as PeriodicSyncEvent
+  if (syncEvent.tag === PERIODIC_SYNC_TAG) {
+    syncEvent.waitUntil(refresh())
+  }
+})
+
+// Actions are handled here so they work with no window open; a plain click opens the app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const data = event.notification.data as ReminderNotificationData | undefined
+  const action = event.action as ReminderAction | ''
+
+  const handle = async () => {
+    if (!data) {
+      await openApp('/')
+      return
+    }
+    switch (action) {
+      case 'prayed':
+        await logPrayer(data)
+        break
+      case 'snooze':
+        await snooze(data)
+        break
+      default:
+        // A tap on the notification itself
+        if (data.opens_timer) {
+          await openApp(`/?${TIMER_PARAM}=${encodeURIComponent(data.prayer_name)}`, {
+            type: 'open-timer',
+            prayer_name: data.prayer_name
+          })
+        } else {
+          await openApp('/')
+        }
+    }
+  }
+
+  event.waitUntil(handle().catch(error => {
+    console.error('Failed to handle notification action:', error)
+  }))
+})
@@ -1,21 +1,73 @@
+// on_time: first half of the window, late: second half, qada: after the window closed,
+// missed: marked as not prayed, excused: not due (travel, illness, menstruation)
+export type PrayerStatus = 'on_time' | 'late' | 'qada' | 'missed' | 'excused'
+
 export interface Prayer {
   id: string
   user_id: string
   prayer_name: string
+  prayer_date: string // Format: "yyyy-MM-dd", the day whose prayer this is
+  status: PrayerStatus
   start_time: string
   end_time?: string
   duration_minutes?: number
   notes?: string
   logged_at: string
+  field_clocks?: string // JSON map of field to the HLC timestamp of its last write
+  deleted_at?: string | null // Set when deleted; the record is kept so it can be restored
+  created_at: string
+  updated_at: string
+}
+
+export type PrayerRevisionAction = 'created' | 'updated' | 'deleted' | 'restored' | 'merged'
+
+// One change to a prayer log, kept so every edit and delete can be traced
+export interface PrayerRevision {
+  id: string
+  user_id: string
+  prayer_id: string
+  action: PrayerRevisionAction
+  changes: string // JSON map of field to [before, after]
+  created_at: string
+}
+
+// Notes that diverged between devices and were resolved automatically, for the user to confirm
+export interface PrayerConflict {
+  id: string
+  user_id: string
+  prayer_id: string
+  prayer_name: string
+  prayer_date: string
+  field: string
+  kept_value: string // Value the record has now
+  other_value: string // Value that lost
+  source: 'duplicate' | 'concurrent_edit'
+  resolved_at?: string
   created_at: string
   updated_at: string
 }
 
+// What a reminder's time is measured from: a fixed clock time, the adhan, or the end of the prayer's window
+export type ReminderAnchor = 'absolute' | 'adhan' | 'window_end'
+
+// When a follow-up is sent for a prayer still not logged
+export type FollowUpAnchor = 'window_progress' | 'window_end'
+
+export interface FollowUpStep {
+  anchor: FollowUpAnchor
+  value: number // Percent of the window elapsed, or minutes before it ends
+}
+
+// What plays with an in-app reminder: an adhan recording, the takbir alone, a short beep, or nothing
+export type ReminderSound = 'adhan_makkah' | 'adhan_madinah' | 'adhan_fajr' | 'takbir' | 'beep' | 'silent'
+
 export interface PrayerReminder {
   id: string
   user_id: string
   prayer_name: string
-  reminder_time: string // Format: "HH:MM"
+  anchor?: ReminderAnchor // Missing on reminders saved before relative reminders; those are absolute
+  offset_minutes?: number // Minutes after the anchor; negative is before. Ignored for absolute reminders
+  reminder_time: string // Format: "HH:MM" in the location's timezone; only used by absolute reminders
   is_enabled: string // SQLite boolean as "0" or "1"
   days_of_week: string // Comma-separated days (1=Monday, 7=Sunday)
   created_at: string
@@ -27,12 +79,43 @@ export interface PrayerStreak {
   user_id: string
   current_streak: number
   longest_streak: number
-  last_prayer_date?: string
+  last_prayer_date?: string // Last day all five prayers were kept, "yyyy-MM-dd"
   total_prayers: number
   created_at: string
   updated_at: string
 }
 
+// Make-up prayers owed from before tracking began, one row per daily prayer
+export interface QadaBacklog {
+  id: string
+  user_id: string
+  prayer_name: string
+  estimated_count: number // Entered by the user
+  accrue_missed: string // SQLite boolean as "0" or "1"; add prayers logged as missed
+  daily_target: number // Extra prayers per day in the repayment plan
+  created_at: string
+  updated_at: string
+}
+
+export interface QadaRepayment {
+  id: string
+  user_id: string
+  prayer_name: string
+  count: number
+  repaid_at: string
+  created_at: string
+}
+
+export interface QadaBalance {
+  prayer_name: string
+  estimated: number
+  accrued: number
+  repaid: number
+  remaining: number
+  accrue_missed: boolean
+  daily_target: number
+}
+
 export interface PrayerSession {
   id: string
   prayer_name: string
@@ -40,23 +123,173 @@ export interface PrayerSession {
   is_active: boolean
 }
 
+// How one day affected the streak: kept extends it, excused/grace/freeze carry it over,
+// broken resets it, pending is today before it is over
+export type StreakDayOutcome = 'kept' | 'excused' | 'grace' | 'freeze' | 'broken' | 'pending'
+
+export interface StreakDay {
+  date: string // "yyyy-MM-dd"
+  outcome: StreakDayOutcome
+  reason: string
+  streak: number // Streak length at the end of the day
+}
+
+// One daily prayer's own streak and how often it was kept over the last 30 days
+export interface PrayerConsistency {
+  prayer_name: string
+  current_streak: number
+  longest_streak: number
+  consistency: number // Percent
+}
+
+// How soon after the adhan a prayer was performed: within 15 minutes, otherwise in
+// the first half of its window, in the second half, or after the window closed
+export type PunctualityBucket = 'first_15' | 'first_half' | 'late' | 'qada'
+
+export interface PrayerPunctuality {
+  prayer_name: string
+  medianDelay: number | null // Minutes after the adhan, over prayers performed within their window
+  buckets: Record<PunctualityBucket, number>
+  total: number
+}
+
+export interface PunctualityWeek {
+  weekStart: string // "yyyy-MM-dd"
+  medianDelay: number | null
+  buckets: Record<PunctualityBucket, number>
+  total: number
+}
+
 export interface PrayerStats {
   totalPrayers: number
   currentStreak: number
   longestStreak: number
+  freezeTokens: number
+  streakDays: StreakDay[] // Last 30 days, oldest first
+  prayerStreaks: PrayerConsistency[]
+  punctuality: PrayerPunctuality[] // Last 30 days
+  punctualityTrend: PunctualityWeek[] // Last 8 weeks, oldest first
+  range: StatsRange // Reporting window of the totals, rates and status counts
   averageDuration: number
-  completionRate: number
-  weeklyStats: {
-    date: string
-    completed: number
-    total: number
-  }[]
+  prayerCompletion: RateMetric // Prayers performed / prayers due
+  dayCompletion: RateMetric // Days with every due prayer performed / elapsed days
+  onTimeRate: RateMetric // Prayers on time / prayers due
+  statusCounts: Record<PrayerStatus, number>
+}
+
+// Reporting window for the statistics charts; presets count back from today
+export type StatsRangePreset = '7d' | '30d' | '90d' | 'year' | 'custom'
+
+export interface StatsRange {
+  from: string // First day, "yyyy-MM-dd"
+  to: string // Last day, inclusive
+}
+
+export interface RateMetric {
+  count: number
+  total: number
+  rate: number // 0-100, count / total
+}
+
+export interface PrayerPeriodCounts {
+  start: string // First day of the week or month, "yyyy-MM-dd"
+  byPrayer: Record<string, number> // Performed prayers by prayer name
+  total: number
+}
+
+export interface CompletionPoint {
+  start: string // First day of the period
+  completed: number // Prayers performed
+  due: number // Prayers not excused
+  rate: number // 0-100
+}
+
+export interface DurationBin {
+  from: number // Minutes, inclusive
+  to: number | null // Minutes, exclusive; null for the open-ended last bin
+  count: number
+}
+
+export interface PrayerChartStats {
+  range: StatsRange
+  weekly: PrayerPeriodCounts[]
+  monthly: PrayerPeriodCounts[]
+  completion: CompletionPoint[] // Daily, or weekly for ranges longer than 90 days
+  durations: DurationBin[]
+}
+
+export type CalculationMethodId = 'MWL' | 'ISNA' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Gulf'
+
+export type AsrMadhab = 'shafi' | 'hanafi'
+
+export type HighLatitudeRule = 'none' | 'middleOfNight' | 'oneSeventh' | 'angleBased'
+
+// Which prayers keep a streak going: on time only, any prayed within its window, or any prayed at all
+export type StreakMode = 'on_time' | 'in_window' | 'performed'
+
+export interface PrayerSettings {
+  id: string
+  user_id: string
+  calculation_method: CalculationMethodId
+  asr_madhab: AsrMadhab
+  high_latitude_rule: HighLatitudeRule
+  time_offsets: string // JSON object of minute offsets keyed by PrayerTimeName
+  streak_mode: StreakMode
+  streak_grace_days: number // Unkept days per calendar month that don't break the streak
+  streak_freeze_every: number // Kept days in a row that earn a freeze token; 0 turns freezes off
+  week_starts_on: number // 0 = Sunday ... 6 = Saturday
+  follow_up_steps: string // JSON array of FollowUpStep; empty turns follow-ups off
+  reminder_sounds: string // JSON object of ReminderSound keyed by prayer name; missing prayers use the default
+  reminder_volume: number // 0 ... 100
+  reminder_fade_in: number // Seconds a recording takes to reach full volume; 0 starts at full volume
+  created_at: string
+  updated_at: string
+}
+
+export type PrayerTimeName = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'sunset' | 'maghrib' | 'isha'
+
+export interface PrayerTimes {
+  date: string // Format: "yyyy-MM-dd" in the location's timezone
+  fajr: Date
+  sunrise: Date
+  dhuhr: Date
+  asr: Date
+  sunset: Date
+  maghrib: Date
+  isha: Date
+  adjusted: PrayerTimeName[] // Times estimated by the high-latitude rule
+}
+
+export interface PrayerLocation {
+  latitude: number
+  longitude: number
+  timezone: string // IANA name, e.g. "Europe/London"
+  elevation?: number // Metres above sea level
+}
+
+export interface UserLocation extends PrayerLocation {
+  id: string
+  user_id: string
+  name: string // City name or a description of detected coordinates
+  country?: string
+  elevation: number
+  source: 'geolocation' | 'manual'
+  created_at: string
+  updated_at: string
+}
+
+// Used until the user's own location is known
+export const DEFAULT_LOCATION: PrayerLocation = {
+  latitude: 21.4225,
+  longitude: 39.8262,
+  timezone: 'Asia/Riyadh',
+  elevation: 277
 }
 
 export const DAILY_PRAYERS = [
-  { name: 'Fajr', time: '5:30 AM', color: 'bg-blue-500' },
-  { name: 'Dhuhr', time: '12:30 PM', color: 'bg-yellow-500' },
-  { name: 'Asr', time: '3:30 PM', color: 'bg-orange-500' },
-  { name: 'Maghrib', time: '6:30 PM', color: 'bg-purple-500' },
-  { name: 'Isha', time: '8:00 PM', color: 'bg-indigo-500' }
+  { name: 'Fajr', key: 'fajr', color: 'bg-blue-500' },
+  { name: 'Dhuhr', key: 'dhuhr', color: 'bg-yellow-500' },
+  { name: 'Asr', key: 'asr', color: 'bg-orange-500' },
+  { name: 'Maghrib', key: 'maghrib', color: 'bg-purple-500' },
+  { name: 'Isha', key: 'isha', color: 'bg-indigo-500' }
 ] as const
\ No newline at end of file
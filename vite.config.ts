@@ -9,10 +9,26 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        sw: path.resolve(__dirname, 'src/sw.ts'),
+      },
+      output: {
+        // The service worker needs a stable URL at the root so it can be registered
+        entryFileNames: (chunk) => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
   server: {
     port: 3000,
     strictPort: true,
     host: true,
     allowedHosts: true,
+    headers: {
+      // Lets the worker served from /src/sw.ts in development control the whole app
+      'Service-Worker-Allowed': '/',
+    },
   }
 });
\ No newline at end of file